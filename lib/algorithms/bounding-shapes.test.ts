@@ -0,0 +1,175 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import {
+  convexHull,
+  minimumEnclosingCircle,
+  orientedBoundingBox,
+} from './bounding-shapes'
+import { signedArea } from './polygon-boolean'
+import { distanceToSegment } from '../math'
+import { createRng } from '../random'
+import { Vector2, vec2 } from '../vector2'
+
+const scattered = (seed: number, count = 200) => {
+  const rng = createRng(seed)
+  return Array.from({ length: count }, () => Vector2.random(0, 100, 0, 50, rng))
+}
+
+const near = (a: Vector2, b: Vector2) => a.distanceTo(b) < 1e-9
+
+describe('convexHull', () => {
+  it('returns the extreme points of a square, ignoring interior and collinear points', () => {
+    const hull = convexHull([
+      vec2(0, 0),
+      vec2(5, 0),
+      vec2(10, 0),
+      vec2(10, 10),
+      vec2(0, 10),
+      vec2(5, 5),
+      vec2(2, 7),
+      vec2(0, 0),
+    ])
+    assert.deepStrictEqual(hull.points, [
+      vec2(0, 0),
+      vec2(10, 0),
+      vec2(10, 10),
+      vec2(0, 10),
+    ])
+  })
+
+  it('contains every point and is convex', () => {
+    const points = scattered(7)
+    const hull = convexHull(points)
+    assert(hull.isConvex())
+    assert(signedArea(hull.points) > 0)
+    for (const point of points) {
+      assert(
+        hull.contains(point) || hull.points.some((p) => p.eq(point)),
+        `${point} is outside the hull`,
+      )
+    }
+  })
+
+  it('returns the distinct extreme points of degenerate inputs', () => {
+    assert.deepStrictEqual(convexHull([]).points, [])
+    assert.deepStrictEqual(convexHull([vec2(1, 1), vec2(1, 1)]).points, [
+      vec2(1, 1),
+    ])
+    assert.deepStrictEqual(
+      convexHull([vec2(2, 2), vec2(0, 0), vec2(1, 1)]).points,
+      [vec2(0, 0), vec2(2, 2)],
+    )
+  })
+})
+
+describe('minimumEnclosingCircle', () => {
+  it('is spanned by the two furthest points when they form a diameter', () => {
+    const circle = minimumEnclosingCircle([
+      vec2(0, 0),
+      vec2(10, 0),
+      vec2(5, 1),
+      vec2(5, -2),
+    ])
+    assert(near(circle.center, vec2(5, 0)))
+    assert.strictEqual(circle.radius, 5)
+  })
+
+  it('circumscribes acute triangles', () => {
+    const circle = minimumEnclosingCircle([vec2(0, 0), vec2(10, 0), vec2(5, 8)])
+    // the center is equidistant from all three vertices
+    assert(Math.abs(circle.center.x - 5) < 1e-9)
+    assert(Math.abs(circle.center.y - 2.4375) < 1e-9)
+    assert(Math.abs(circle.radius - 5.5625) < 1e-9)
+  })
+
+  it('contains every point, with at least two on the boundary', () => {
+    const points = scattered(3)
+    const circle = minimumEnclosingCircle(points, createRng(1))
+    const distances = points.map((p) => p.distanceTo(circle.center))
+    assert(distances.every((d) => d <= circle.radius + 1e-9))
+    assert(
+      distances.filter((d) => Math.abs(d - circle.radius) < 1e-9).length >= 2,
+    )
+  })
+
+  it('does not depend on the order of the points', () => {
+    const points = scattered(11)
+    const a = minimumEnclosingCircle(points, createRng(1))
+    const b = minimumEnclosingCircle(points, createRng(2))
+    assert(near(a.center, b.center))
+    assert(Math.abs(a.radius - b.radius) < 1e-9)
+  })
+
+  it('handles single points and collinear points', () => {
+    const single = minimumEnclosingCircle([vec2(3, 4)])
+    assert.deepStrictEqual(single.center, vec2(3, 4))
+    assert.strictEqual(single.radius, 0)
+
+    const line = minimumEnclosingCircle([
+      vec2(1, 1),
+      vec2(3, 3),
+      vec2(2, 2),
+      vec2(0, 0),
+    ])
+    assert(near(line.center, vec2(1.5, 1.5)))
+    assert(Math.abs(line.radius - Math.SQRT2 * 1.5) < 1e-9)
+  })
+
+  it('throws for an empty list of points', () => {
+    assert.throws(() => minimumEnclosingCircle([]))
+  })
+})
+
+describe('orientedBoundingBox', () => {
+  it('finds the rotated rectangle around rotated points', () => {
+    const angle = Math.PI / 6
+    const u = Vector2.fromAngle(angle)
+    const v = vec2(-u.y, u.x)
+    const corners = [vec2(0, 0), vec2(8, 0), vec2(8, 3), vec2(0, 3)]
+    const points = [...corners, vec2(4, 1), vec2(2, 2), vec2(8, 1.5)].map(
+      ({ x, y }) => u.scale(x).add(v.scale(y)).add(vec2(20, 10)),
+    )
+    const box = orientedBoundingBox(points)
+    assert.strictEqual(box.points.length, 4)
+    assert(Math.abs(box.area() - 24) < 1e-9)
+    for (const corner of corners.map(({ x, y }) =>
+      u.scale(x).add(v.scale(y)).add(vec2(20, 10)),
+    )) {
+      assert(
+        box.points.some((p) => near(p, corner)),
+        `missing corner ${corner}`,
+      )
+    }
+  })
+
+  it('is never larger than the axis-aligned bounding box', () => {
+    const points = scattered(5)
+    const box = orientedBoundingBox(points)
+    const { width, height } = convexHull(points).boundingBox
+    assert(box.area() > 0)
+    assert(box.area() <= width * height + 1e-9)
+    for (const point of points) {
+      assert(
+        box.contains(point) ||
+          box.points.some(
+            (p, i) =>
+              distanceToSegment(point, p, box.points[(i + 1) % 4]) < 1e-9,
+          ),
+      )
+    }
+  })
+
+  it('returns degenerate boxes for collinear points', () => {
+    const box = orientedBoundingBox([vec2(0, 0), vec2(1, 1), vec2(3, 3)])
+    assert(Math.abs(box.area()) < 1e-9)
+    assert(box.points.some((p) => near(p, vec2(0, 0))))
+    assert(box.points.some((p) => near(p, vec2(3, 3))))
+
+    const point = orientedBoundingBox([vec2(2, 5)])
+    assert(point.points.every((p) => near(p, vec2(2, 5))))
+  })
+
+  it('throws for an empty list of points', () => {
+    assert.throws(() => orientedBoundingBox([]))
+  })
+})
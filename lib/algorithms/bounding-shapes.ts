@@ -0,0 +1,175 @@
+/**
+ * Tight outlines around sets of points.
+ *
+ * - Convex hull (Andrew's monotone chain): https://en.wikibooks.org/wiki/Algorithm_Implementation/Geometry/Convex_hull/Monotone_chain
+ * - Minimum enclosing circle (Welzl): https://en.wikipedia.org/wiki/Smallest-circle_problem
+ * - Oriented bounding box (rotating calipers): https://en.wikipedia.org/wiki/Minimum_bounding_box_algorithms
+ */
+import { Circle } from '../components/circle.js'
+import { Polygon } from '../components/polygon.js'
+import { Rng, shuffle } from '../random.js'
+import { Vector2, vec2 } from '../vector2.js'
+
+type Disk = { center: Vector2; radius: number }
+
+/**
+ * The smallest convex polygon which contains every point.
+ * The hull winds the same way as the outer rings returned by `overlay` (positive `signedArea`),
+ * and collinear points along its edges are removed.
+ * When every point is identical or collinear, the polygon only contains the distinct extreme points.
+ * @param {Vector2[]} points
+ * @returns {Polygon}
+ */
+export function convexHull(points: Vector2[]): Polygon {
+  return new Polygon({ points: hull(points) })
+}
+
+/**
+ * The smallest circle which contains every point, using Welzl's algorithm.
+ * The points are shuffled first, which gives an expected linear running time.
+ * @param {Vector2[]} points
+ * @param {Rng} [rng=Math.random] used to shuffle the points. The result does not depend on it.
+ * @returns {Circle}
+ * @throws when `points` is empty
+ */
+export function minimumEnclosingCircle(
+  points: Vector2[],
+  rng: Rng = Math.random,
+): Circle {
+  if (points.length === 0) {
+    throw new Error(
+      'Cannot compute the minimum enclosing circle of an empty list of points',
+    )
+  }
+  const shuffled = shuffle(points, rng)
+  let disk: Disk = { center: shuffled[0], radius: 0 }
+  for (let i = 1; i < shuffled.length; i++) {
+    if (encloses(disk, shuffled[i])) {
+      continue
+    }
+    disk = { center: shuffled[i], radius: 0 }
+    for (let j = 0; j < i; j++) {
+      if (encloses(disk, shuffled[j])) {
+        continue
+      }
+      disk = diametral(shuffled[i], shuffled[j])
+      for (let k = 0; k < j; k++) {
+        if (!encloses(disk, shuffled[k])) {
+          disk = circumscribed(shuffled[i], shuffled[j], shuffled[k])
+        }
+      }
+    }
+  }
+  return new Circle({ center: disk.center, radius: disk.radius })
+}
+
+/**
+ * The smallest-area rectangle, in any orientation, which contains every point.
+ * One side of the rectangle is always collinear with an edge of the convex hull,
+ * so only the hull's edge directions need to be checked.
+ * The corners wind the same way as `convexHull`.
+ * @param {Vector2[]} points
+ * @returns {Polygon} a polygon with 4 points. Degenerate (zero width or height) when the points are collinear.
+ * @throws when `points` is empty
+ */
+export function orientedBoundingBox(points: Vector2[]): Polygon {
+  if (points.length === 0) {
+    throw new Error(
+      'Cannot compute the oriented bounding box of an empty list of points',
+    )
+  }
+  const ring = hull(points)
+  const directions = ring
+    .map((point, i) => ring[(i + 1) % ring.length].subtract(point))
+    .filter((edge) => edge.length() > 0)
+    .map((edge) => edge.normalize())
+  if (directions.length === 0) {
+    directions.push(vec2(1, 0))
+  }
+
+  let best: Vector2[] = []
+  let bestArea = Number.POSITIVE_INFINITY
+  for (const u of directions) {
+    const v = vec2(-u.y, u.x)
+    let minU = Number.POSITIVE_INFINITY
+    let maxU = Number.NEGATIVE_INFINITY
+    let minV = Number.POSITIVE_INFINITY
+    let maxV = Number.NEGATIVE_INFINITY
+    for (const point of ring) {
+      const pu = point.dot(u)
+      const pv = point.dot(v)
+      minU = Math.min(minU, pu)
+      maxU = Math.max(maxU, pu)
+      minV = Math.min(minV, pv)
+      maxV = Math.max(maxV, pv)
+    }
+    const area = (maxU - minU) * (maxV - minV)
+    if (area < bestArea) {
+      bestArea = area
+      const corner = (a: number, b: number) => u.scale(a).add(v.scale(b))
+      best = [
+        corner(minU, minV),
+        corner(maxU, minV),
+        corner(maxU, maxV),
+        corner(minU, maxV),
+      ]
+    }
+  }
+  return new Polygon({ points: best })
+}
+
+function hull(points: Vector2[]): Vector2[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  const unique = sorted.filter(
+    (point, i) => i === 0 || !point.eq(sorted[i - 1]),
+  )
+  if (unique.length < 3) {
+    return unique
+  }
+  const chain = (candidates: Vector2[]): Vector2[] => {
+    const result: Vector2[] = []
+    for (const point of candidates) {
+      while (
+        result.length >= 2 &&
+        result[result.length - 1]
+          .subtract(result[result.length - 2])
+          .cross(point.subtract(result[result.length - 1])) <= 0
+      ) {
+        result.pop()
+      }
+      result.push(point)
+    }
+    // the last point of each chain is the first point of the other one
+    return result.slice(0, -1)
+  }
+  return [...chain(unique), ...chain([...unique].reverse())]
+}
+
+function encloses(disk: Disk, point: Vector2): boolean {
+  return (
+    disk.center.distanceTo(point) <=
+    disk.radius + 1e-9 * Math.max(1, disk.radius)
+  )
+}
+
+function diametral(a: Vector2, b: Vector2): Disk {
+  return { center: Vector2.midpoint(a, b), radius: a.distanceTo(b) / 2 }
+}
+
+function circumscribed(a: Vector2, b: Vector2, c: Vector2): Disk {
+  const ab = b.subtract(a)
+  const ac = c.subtract(a)
+  const d = 2 * ab.cross(ac)
+  if (d === 0) {
+    // collinear: the two furthest points span the circle
+    return [diametral(a, b), diametral(a, c), diametral(b, c)].reduce(
+      (largest, disk) => (disk.radius > largest.radius ? disk : largest),
+    )
+  }
+  const abSq = ab.dot(ab)
+  const acSq = ac.dot(ac)
+  const center = a.add(
+    vec2((ac.y * abSq - ab.y * acSq) / d, (ab.x * acSq - ac.x * abSq) / d),
+  )
+  return { center, radius: center.distanceTo(a) }
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import {
+  circleClipRegion,
+  clipPolyline,
+  clipRegion,
+  polygonClipRegion,
+} from './line-clipping'
+import { Rectangle } from '../components/rectangle'
+import { Polygon } from '../components/polygon'
+import { Circle } from '../components/circle'
+import { vec2 } from '../vector2'
+
+const square = polygonClipRegion([
+  [vec2(0, 0), vec2(10, 0), vec2(10, 10), vec2(0, 10)],
+])
+
+describe('clipPolyline', () => {
+  it('keeps the pieces inside the region', () => {
+    const pieces = clipPolyline(
+      [vec2(-5, 5), vec2(5, 5), vec2(5, 15), vec2(8, 15), vec2(8, 5)],
+      square,
+    )
+    assert.deepStrictEqual(pieces, [
+      [vec2(0, 5), vec2(5, 5), vec2(5, 10)],
+      [vec2(8, 10), vec2(8, 5)],
+    ])
+  })
+
+  it('keeps the pieces outside the region', () => {
+    const pieces = clipPolyline([vec2(-5, 5), vec2(15, 5)], square, {
+      keep: 'outside',
+    })
+    assert.deepStrictEqual(pieces, [
+      [vec2(-5, 5), vec2(0, 5)],
+      [vec2(10, 5), vec2(15, 5)],
+    ])
+  })
+
+  it('returns the whole line when it is inside', () => {
+    const line = [vec2(1, 1), vec2(9, 9)]
+    assert.deepStrictEqual(clipPolyline(line, square), [line])
+  })
+
+  it('returns nothing when the line is outside', () => {
+    assert.deepStrictEqual(
+      clipPolyline([vec2(-1, -1), vec2(-5, 20)], square),
+      [],
+    )
+  })
+
+  it('clips against circles', () => {
+    const pieces = clipPolyline(
+      [vec2(-10, 0), vec2(10, 0)],
+      circleClipRegion(vec2(0, 0), 5),
+    )
+    assert.deepStrictEqual(pieces, [[vec2(-5, 0), vec2(5, 0)]])
+  })
+
+  it('clips against polygons with holes', () => {
+    const donut = new Polygon({
+      points: [vec2(0, 0), vec2(10, 0), vec2(10, 10), vec2(0, 10)],
+      holes: [[vec2(4, 4), vec2(6, 4), vec2(6, 6), vec2(4, 6)]],
+    })
+    const pieces = clipPolyline([vec2(0, 5), vec2(10, 5)], clipRegion(donut))
+    assert.deepStrictEqual(pieces, [
+      [vec2(0, 5), vec2(4, 5)],
+      [vec2(6, 5), vec2(10, 5)],
+    ])
+  })
+})
+
+describe('clipRegion', () => {
+  it('supports rectangles, circles and polygons', () => {
+    const point = vec2(1, 1)
+    assert(
+      clipRegion(new Rectangle({ x: 0, y: 0, width: 2, height: 2 })).contains(
+        point,
+      ),
+    )
+    assert(
+      clipRegion(new Circle({ center: vec2(0, 0), radius: 2 })).contains(point),
+    )
+    assert(
+      !clipRegion(
+        new Polygon({ points: [vec2(2, 2), vec2(3, 2), vec2(3, 3)] }),
+      ).contains(point),
+    )
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Cuts lines against a region, keeping the pieces inside (or outside) of it.
+ * Each segment is split where it crosses the boundary of the region, and the pieces are classified by their midpoints.
+ */
+import type { Circle } from '../components/circle.js'
+import type { Polygon } from '../components/polygon.js'
+import type { Rectangle } from '../components/rectangle.js'
+import { type Vector2 } from '../vector2.js'
+import { Rings, insideRings } from './polygon-boolean.js'
+
+export type ClipRegion = {
+  contains: (point: Vector2) => boolean
+  /**
+   * The parameters along the segment, between 0 and 1, where it crosses the boundary of the region.
+   */
+  crossings: (start: Vector2, end: Vector2) => number[]
+}
+
+export type ClipOptions = {
+  /**
+   * Which pieces of the line to keep.
+   * @default 'inside'
+   */
+  keep?: 'inside' | 'outside'
+}
+
+/**
+ * A clip region bounded by rings; see `insideRings`.
+ * @param {Rings} rings
+ * @returns {ClipRegion}
+ */
+export function polygonClipRegion(rings: Rings): ClipRegion {
+  return {
+    contains: (point) => insideRings(rings, point),
+    crossings: (start, end) => {
+      const r = end.subtract(start)
+      const result: number[] = []
+      for (const ring of rings) {
+        for (const [i, q] of ring.entries()) {
+          const s = ring[(i + 1) % ring.length].subtract(q)
+          const denominator = r.cross(s)
+          if (denominator === 0) {
+            continue
+          }
+          const qp = q.subtract(start)
+          const t = qp.cross(s) / denominator
+          const u = qp.cross(r) / denominator
+          if (t > 0 && t < 1 && u >= 0 && u <= 1) {
+            result.push(t)
+          }
+        }
+      }
+      return result
+    },
+  }
+}
+
+/**
+ * @param {Vector2} center
+ * @param {number} radius
+ * @returns {ClipRegion}
+ */
+export function circleClipRegion(center: Vector2, radius: number): ClipRegion {
+  return {
+    contains: (point) => point.distanceTo(center) <= radius,
+    crossings: (start, end) => {
+      // solve |start + t * d - center| = radius for t
+      const d = end.subtract(start)
+      const f = start.subtract(center)
+      const a = d.dot(d)
+      const b = 2 * f.dot(d)
+      const c = f.dot(f) - radius * radius
+      const discriminant = b * b - 4 * a * c
+      if (a === 0 || discriminant <= 0) {
+        return []
+      }
+      const root = Math.sqrt(discriminant)
+      return [(-b - root) / (2 * a), (-b + root) / (2 * a)].filter(
+        (t) => t > 0 && t < 1,
+      )
+    },
+  }
+}
+
+/**
+ * The clip region of a shape. Rounded corners of rectangles are ignored.
+ * @param {Rectangle | Circle | Polygon} shape
+ * @returns {ClipRegion}
+ */
+export function clipRegion(shape: Rectangle | Circle | Polygon): ClipRegion {
+  if ('radius' in shape) {
+    return circleClipRegion(shape.center, shape.radius)
+  }
+  if ('vertices' in shape) {
+    return polygonClipRegion([shape.vertices()])
+  }
+  return polygonClipRegion([shape.points, ...shape.holes])
+}
+
+/**
+ * Cuts the line against the region.
+ * @param {Vector2[]} points
+ * @param {ClipRegion} region
+ * @param {ClipOptions} [options]
+ * @returns {Vector2[][]} the pieces of the line which were kept, in order
+ */
+export function clipPolyline(
+  points: Vector2[],
+  region: ClipRegion,
+  { keep = 'inside' }: ClipOptions = {},
+): Vector2[][] {
+  const pieces: Vector2[][] = []
+  let current: Vector2[] | null = null
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]
+    const end = points[i + 1]
+    const direction = end.subtract(start)
+    const at = (t: number) =>
+      t === 0 ? start : t === 1 ? end : start.add(direction.multiply(t))
+    const ts = [0, ...region.crossings(start, end).sort((a, b) => a - b), 1]
+    for (let k = 0; k < ts.length - 1; k++) {
+      if (ts[k + 1] === ts[k]) {
+        continue
+      }
+      const mid = at((ts[k] + ts[k + 1]) / 2)
+      if (region.contains(mid) === (keep === 'inside')) {
+        // pieces which continue the previous piece are joined
+        if (current === null) {
+          current = [at(ts[k])]
+          pieces.push(current)
+        }
+        current.push(at(ts[k + 1]))
+      } else {
+        current = null
+      }
+    }
+  }
+  return pieces
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { offsetRings, outlinePolyline } from './offset'
+import { signedArea } from './polygon-boolean'
+import { Vector2, vec2 } from '../vector2'
+
+const square = [vec2(0, 0), vec2(10, 0), vec2(10, 10), vec2(0, 10)]
+
+/** the area of a list of polygons, where holes have a negative area */
+const area = (polygons: Vector2[][][]) =>
+  polygons.flat().reduce((sum, ring) => sum + signedArea(ring), 0)
+
+describe('offsetRings', () => {
+  it('grows polygons with mitered corners', () => {
+    const [[ring], ...rest] = offsetRings([square], 1)
+    assert.strictEqual(rest.length, 0)
+    assert.strictEqual(ring.length, 4)
+    for (const corner of [
+      vec2(-1, -1),
+      vec2(11, -1),
+      vec2(11, 11),
+      vec2(-1, 11),
+    ]) {
+      assert(ring.some((point) => point.distanceTo(corner) < 1e-9))
+    }
+  })
+
+  it('bevels corners', () => {
+    const [[ring]] = offsetRings([square], 1, { join: 'bevel' })
+    assert.strictEqual(ring.length, 8)
+    assert.strictEqual(signedArea(ring), 144 - 2)
+  })
+
+  it('bevels corners which exceed the miter limit', () => {
+    const spike = [vec2(0, 0), vec2(10, 0), vec2(0, 1)]
+    const [[mitered]] = offsetRings([spike], 0.1, { miterLimit: 1000 })
+    const [[limited]] = offsetRings([spike], 0.1)
+    assert(mitered.some(({ x }) => x > 11))
+    assert(limited.every(({ x }) => x < 10.2))
+  })
+
+  it('rounds corners within the tolerance', () => {
+    const [[ring]] = offsetRings([square], 2, {
+      join: 'round',
+      tolerance: 0.01,
+    })
+    const expected = 100 + 4 * 10 * 2 + Math.PI * 4
+    assert(ring.length > 20)
+    assert(Math.abs(signedArea(ring) - expected) < 0.5)
+  })
+
+  it('shrinks polygons', () => {
+    const [[ring], ...rest] = offsetRings([square], -2)
+    assert.strictEqual(rest.length, 0)
+    assert.strictEqual(ring.length, 4)
+    for (const corner of [vec2(2, 2), vec2(8, 2), vec2(8, 8), vec2(2, 8)]) {
+      assert(ring.some((point) => point.eq(corner)))
+    }
+  })
+
+  it('removes polygons which shrink away entirely', () => {
+    assert.deepStrictEqual(offsetRings([square], -6), [])
+  })
+
+  it('splits polygons with narrow parts', () => {
+    const dumbbell = [
+      vec2(0, 0),
+      vec2(4, 0),
+      vec2(4, 1.5),
+      vec2(6, 1.5),
+      vec2(6, 0),
+      vec2(10, 0),
+      vec2(10, 4),
+      vec2(6, 4),
+      vec2(6, 2.5),
+      vec2(4, 2.5),
+      vec2(4, 4),
+      vec2(0, 4),
+    ]
+    const result = offsetRings([dumbbell], -0.75)
+    assert.strictEqual(result.length, 2)
+    assert.strictEqual(area(result), 2 * 2.5 * 2.5)
+  })
+
+  it('offsets holes in the opposite direction', () => {
+    const donut = [square, [vec2(4, 4), vec2(6, 4), vec2(6, 6), vec2(4, 6)]]
+    const result = offsetRings(donut, 1)
+    assert.strictEqual(area(result), 144)
+    const inset = offsetRings(donut, -1)
+    assert.strictEqual(area(inset), 64 - 16)
+  })
+})
+
+describe('outlinePolyline', () => {
+  const line = [vec2(0, 0), vec2(10, 0), vec2(10, 10)]
+
+  it('outlines the stroke of the line', () => {
+    const [[ring]] = outlinePolyline(line, 1)
+    // the legs overlap by 1, and the miter adds 1
+    assert.strictEqual(signedArea(ring), 2 * 20)
+  })
+
+  it('adds square and round caps', () => {
+    const segment = [vec2(0, 0), vec2(10, 0)]
+    const [[square]] = outlinePolyline(segment, 1, { cap: 'square' })
+    assert.strictEqual(signedArea(square), 24)
+    const [[round]] = outlinePolyline(segment, 1, {
+      cap: 'round',
+      tolerance: 0.001,
+    })
+    assert(Math.abs(signedArea(round) - (20 + Math.PI)) < 0.01)
+  })
+
+  it('returns nothing for lines without length', () => {
+    assert.deepStrictEqual(outlinePolyline([vec2(1, 1), vec2(1, 1)], 1), [])
+  })
+})
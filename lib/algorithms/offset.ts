@@ -0,0 +1,235 @@
+/**
+ * Offsetting (inset and outset) of polygons, and outlining of polylines.
+ *
+ * The offset is computed as a buffer: every edge is swept along its normal into a quadrilateral,
+ * the gaps between consecutive quadrilaterals are filled according to the join style,
+ * and the pieces are combined with the polygon using boolean operations (see `overlay`).
+ * This handles holes, and insets which split a polygon into several polygons.
+ */
+import { Vector2, vec2 } from '../vector2.js'
+import { Rings, overlay } from './polygon-boolean.js'
+
+export type OffsetJoin = 'miter' | 'round' | 'bevel'
+
+export type OffsetCap = 'butt' | 'round' | 'square'
+
+export type OffsetOptions = {
+  /**
+   * How the offset edges are joined at corners.
+   * @default 'miter'
+   */
+  join?: OffsetJoin
+  /**
+   * The maximum ratio between the length of a miter (from the corner to its tip) and the offset distance.
+   * Sharper corners are beveled instead. Same as the SVG `stroke-miterlimit`.
+   * @default 4
+   */
+  miterLimit?: number
+  /**
+   * The maximum distance between a round join or cap and its approximating line segments.
+   * @default 0.1
+   */
+  tolerance?: number
+}
+
+export type OutlineOptions = OffsetOptions & {
+  /**
+   * How the ends of the line are drawn. Same as the SVG `stroke-linecap`.
+   * @default 'butt'
+   */
+  cap?: OffsetCap
+}
+
+/**
+ * Grows (positive distance) or shrinks (negative distance) a polygon.
+ * @param {Rings} rings the outer boundary followed by any holes
+ * @param {number} distance
+ * @param {OffsetOptions} [options]
+ * @returns {Rings[]}
+ */
+export function offsetRings(
+  rings: Rings,
+  distance: number,
+  options: OffsetOptions = {},
+): Rings[] {
+  if (distance === 0) {
+    return overlay([rings], [], 'union')
+  }
+  const radius = Math.abs(distance)
+  const pieces = rings.flatMap((ring) => {
+    const points = withoutRepeatedPoints(ring, true)
+    return points.flatMap((point, i) => [
+      edgeQuad(point, points[(i + 1) % points.length], radius),
+      ...join(
+        points[(i - 1 + points.length) % points.length],
+        point,
+        points[(i + 1) % points.length],
+        radius,
+        options,
+      ),
+    ])
+  })
+  return overlay(
+    [rings],
+    pieces.map((piece) => [piece]),
+    distance > 0 ? 'union' : 'difference',
+  )
+}
+
+/**
+ * The outline of a line stroked with a width of `2 * distance`.
+ * @param {Vector2[]} points
+ * @param {number} distance half of the stroke width
+ * @param {OutlineOptions} [options]
+ * @returns {Rings[]}
+ */
+export function outlinePolyline(
+  points: Vector2[],
+  distance: number,
+  { cap = 'butt', ...options }: OutlineOptions = {},
+): Rings[] {
+  const line = withoutRepeatedPoints(points, false)
+  const radius = Math.abs(distance)
+  if (line.length < 2 || radius === 0) {
+    return []
+  }
+  const pieces: Vector2[][] = []
+  for (let i = 0; i < line.length - 1; i++) {
+    pieces.push(edgeQuad(line[i], line[i + 1], radius))
+    if (i > 0) {
+      pieces.push(...join(line[i - 1], line[i], line[i + 1], radius, options))
+    }
+  }
+  const last = line.length - 1
+  pieces.push(
+    ...capPieces(line[1], line[0], cap, radius, options.tolerance),
+    ...capPieces(line[last - 1], line[last], cap, radius, options.tolerance),
+  )
+  return overlay(
+    pieces.map((piece) => [piece]),
+    [],
+    'union',
+  )
+}
+
+function withoutRepeatedPoints(points: Vector2[], closed: boolean): Vector2[] {
+  const result = points.filter(
+    (point, i) => i === 0 || !point.eq(points[i - 1]),
+  )
+  if (closed && result.length > 1 && result[0].eq(result[result.length - 1])) {
+    result.pop()
+  }
+  return result
+}
+
+/**
+ * The unit normal on the left of the direction from `start` to `end`.
+ */
+function leftNormal(start: Vector2, end: Vector2): Vector2 {
+  const direction = end.subtract(start).normalize()
+  return vec2(-direction.y, direction.x)
+}
+
+/**
+ * The area swept by the edge along its normal, on both sides.
+ */
+function edgeQuad(start: Vector2, end: Vector2, radius: number): Vector2[] {
+  const offset = leftNormal(start, end).multiply(radius)
+  return [
+    start.add(offset),
+    end.add(offset),
+    end.subtract(offset),
+    start.subtract(offset),
+  ]
+}
+
+/**
+ * Fills the gap between the quads of two consecutive edges, on the outside of the corner.
+ */
+function join(
+  previous: Vector2,
+  corner: Vector2,
+  next: Vector2,
+  radius: number,
+  { join = 'miter', miterLimit = 4, tolerance = 0.1 }: OffsetOptions,
+): Vector2[][] {
+  const turn = corner.subtract(previous).cross(next.subtract(corner))
+  if (turn === 0) {
+    return []
+  }
+  // the gap is on the right of a left turn, and vice versa
+  const side = turn > 0 ? -1 : 1
+  const n1 = leftNormal(previous, corner).multiply(side)
+  const n2 = leftNormal(corner, next).multiply(side)
+  if (join === 'round') {
+    return [[corner, ...arc(corner, n1, n2, radius, tolerance)]]
+  }
+  const bisector = n1.add(n2)
+  // the miter length relative to the radius is 1 / cos(θ/2), where θ is the angle between the normals
+  const cosHalfAngle = bisector.length() / 2
+  if (join === 'miter' && cosHalfAngle > 0 && 1 / cosHalfAngle <= miterLimit) {
+    return [
+      [
+        corner,
+        corner.add(n1.multiply(radius)),
+        corner.add(bisector.normalize().multiply(radius / cosHalfAngle)),
+        corner.add(n2.multiply(radius)),
+      ],
+    ]
+  }
+  return [
+    [corner, corner.add(n1.multiply(radius)), corner.add(n2.multiply(radius))],
+  ]
+}
+
+/**
+ * Points on the circle around `center`, from the direction `from` to the direction `to` (unit vectors),
+ * taking the shorter way around.
+ */
+function arc(
+  center: Vector2,
+  from: Vector2,
+  to: Vector2,
+  radius: number,
+  tolerance: number,
+): Vector2[] {
+  const start = Math.atan2(from.y, from.x)
+  const sweep = Math.atan2(from.cross(to), from.dot(to))
+  const maxStep =
+    tolerance >= radius ? Math.PI / 2 : 2 * Math.acos(1 - tolerance / radius)
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / maxStep))
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const angle = start + (sweep * i) / count
+    return center.add(vec2(Math.cos(angle), Math.sin(angle)).multiply(radius))
+  })
+}
+
+/**
+ * The pieces which are added at the `end` of a line that arrives from `previous`.
+ */
+function capPieces(
+  previous: Vector2,
+  end: Vector2,
+  cap: OffsetCap,
+  radius: number,
+  tolerance = 0.1,
+): Vector2[][] {
+  const normal = leftNormal(previous, end)
+  const direction = end.subtract(previous).normalize()
+  switch (cap) {
+    case 'butt':
+      return []
+    case 'square':
+      return [edgeQuad(end, end.add(direction.multiply(radius)), radius)]
+    case 'round':
+      return [
+        [
+          end,
+          ...arc(end, normal, direction, radius, tolerance),
+          ...arc(end, direction, normal.multiply(-1), radius, tolerance).slice(
+            1,
+          ),
+        ],
+      ]
+  }
+}
@@ -0,0 +1,121 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { overlay, signedArea } from './polygon-boolean'
+import { Vector2, vec2 } from '../vector2'
+
+const square = (x: number, y: number, size: number) => [
+  vec2(x, y),
+  vec2(x + size, y),
+  vec2(x + size, y + size),
+  vec2(x, y + size),
+]
+
+/** the area of a list of polygons, where holes have a negative area */
+const area = (polygons: Vector2[][][]) =>
+  polygons.flat().reduce((sum, ring) => sum + signedArea(ring), 0)
+
+describe('overlay', () => {
+  const a = [square(0, 0, 2)]
+  const b = [square(1, 1, 2)]
+
+  it('computes the union', () => {
+    const result = overlay([a], [b], 'union')
+    assert.strictEqual(result.length, 1)
+    assert.deepStrictEqual(result[0][0], [
+      vec2(0, 0),
+      vec2(2, 0),
+      vec2(2, 1),
+      vec2(3, 1),
+      vec2(3, 3),
+      vec2(1, 3),
+      vec2(1, 2),
+      vec2(0, 2),
+    ])
+  })
+
+  it('computes the intersection', () => {
+    const result = overlay([a], [b], 'intersection')
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(area(result), 1)
+  })
+
+  it('computes the difference', () => {
+    const result = overlay([a], [b], 'difference')
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(area(result), 3)
+  })
+
+  it('computes the symmetric difference', () => {
+    const result = overlay([a], [b], 'xor')
+    assert.strictEqual(result.length, 2)
+    assert.strictEqual(area(result), 6)
+  })
+
+  it('creates holes', () => {
+    const result = overlay(
+      [[square(0, 0, 4)]],
+      [[square(1, 1, 2)]],
+      'difference',
+    )
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(result[0].length, 2)
+    assert(signedArea(result[0][0]) > 0)
+    assert(signedArea(result[0][1]) < 0)
+    assert.strictEqual(area(result), 12)
+  })
+
+  it('supports operands with holes', () => {
+    const donut = [square(0, 0, 4), square(1, 1, 2)]
+    const result = overlay([donut], [[square(3, 3, 2)]], 'union')
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(result[0].length, 2)
+    assert.strictEqual(area(result), 12 + 3)
+    // the hole of the subject is filled by the intersection with the clip
+    const filled = overlay([donut], [[square(1, 1, 1)]], 'union')
+    assert.strictEqual(area(filled), 13)
+  })
+
+  it('resolves self-intersections', () => {
+    const bowtie = [vec2(0, 0), vec2(2, 2), vec2(2, 0), vec2(0, 2)]
+    const result = overlay([[bowtie]], [], 'union')
+    assert.strictEqual(result.length, 2)
+    assert.strictEqual(area(result), 2)
+  })
+
+  it('merges shared edges', () => {
+    const result = overlay([[square(0, 0, 2)]], [[square(2, 0, 2)]], 'union')
+    assert.deepStrictEqual(result, [
+      [[vec2(0, 0), vec2(4, 0), vec2(4, 2), vec2(0, 2)]],
+    ])
+  })
+
+  it('separates polygons which touch at a vertex', () => {
+    const result = overlay([[square(0, 0, 2)]], [[square(2, 2, 2)]], 'union')
+    assert.strictEqual(result.length, 2)
+  })
+
+  it('treats a list of polygons as their union', () => {
+    const result = overlay([[square(0, 0, 2)], [square(1, 0, 2)]], [], 'union')
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(area(result), 6)
+  })
+
+  it('returns nothing for disjoint intersections', () => {
+    assert.deepStrictEqual(
+      overlay([a], [[square(5, 5, 1)]], 'intersection'),
+      [],
+    )
+  })
+
+  it('is independent of the orientation of the rings', () => {
+    const result = overlay([a], [[...b].reverse()], 'intersection')
+    assert.strictEqual(area(result), 1)
+  })
+})
+
+describe('signedArea', () => {
+  it('is positive for counterclockwise rings (in a y-up coordinate system)', () => {
+    assert.strictEqual(signedArea(square(0, 0, 2)), 4)
+    assert.strictEqual(signedArea(square(0, 0, 2).reverse()), -4)
+  })
+})
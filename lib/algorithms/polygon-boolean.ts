@@ -0,0 +1,356 @@
+/**
+ * Boolean operations between polygons, implemented as an overlay:
+ *
+ * 1. every edge of both operands is split at its intersections with every other edge,
+ *    including intersections within the same polygon (self-intersections)
+ * 2. each split edge is kept when the result of the operation differs on either side of it
+ * 3. the kept edges are linked into rings, which are grouped into outer boundaries and holes
+ *
+ * Points are inside a polygon according to the even-odd rule, consistent with `Polygon#contains`,
+ * so the orientation of rings does not matter and holes may be given in any order.
+ * The complexity is quadratic in the number of edges, which is fine for the shapes in a typical sketch.
+ */
+import { Vector2, vec2 } from '../vector2.js'
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'xor'
+
+/**
+ * A polygon as a list of rings; the first ring is the outer boundary and the rest are holes.
+ */
+export type Rings = Vector2[][]
+
+type Edge = { start: number; end: number }
+
+/**
+ * Computes the boolean operation between two regions.
+ * Each region is a list of polygons, and a point is in the region when it is in any of its polygons.
+ * @param {Rings[]} subject
+ * @param {Rings[]} clip
+ * @param {BooleanOperation} operation
+ * @returns {Rings[]} the resulting polygons. Outer rings have a positive signed area (see `signedArea`), and holes a negative one.
+ */
+export function overlay(
+  subject: Rings[],
+  clip: Rings[],
+  operation: BooleanOperation,
+): Rings[] {
+  const all = [...subject, ...clip].flat(2)
+  if (all.length === 0) {
+    return []
+  }
+  const xs = all.map(({ x }) => x)
+  const ys = all.map(({ y }) => y)
+  const scale = Math.max(
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys),
+    Number.MIN_VALUE,
+  )
+  const pool = new VertexPool(scale * 1e-10)
+  const edges = splitEdges(
+    [...subject, ...clip].flat().flatMap((ring) => ringEdges(ring)),
+    pool,
+  )
+
+  const inResult = (point: Vector2) => {
+    const inSubject = subject.some((rings) => insideRings(rings, point))
+    const inClip = clip.some((rings) => insideRings(rings, point))
+    switch (operation) {
+      case 'union':
+        return inSubject || inClip
+      case 'intersection':
+        return inSubject && inClip
+      case 'difference':
+        return inSubject && !inClip
+      case 'xor':
+        return inSubject !== inClip
+    }
+  }
+
+  // keep the boundary edges of the result, oriented so the result is on their left
+  const boundary: Edge[] = []
+  for (const edge of edges) {
+    const start = pool.points[edge.start]
+    const end = pool.points[edge.end]
+    const left = inResult(besideMidpoint(start, end, scale))
+    if (left !== inResult(besideMidpoint(end, start, scale))) {
+      boundary.push(left ? edge : { start: edge.end, end: edge.start })
+    }
+  }
+
+  const rings = linkRings(boundary, pool.points)
+    .flatMap(splitAtRepeatedVertices)
+    .map((ring) => removeCollinear(ring.map((i) => pool.points[i])))
+    .filter((ring) => ring.length >= 3 && signedArea(ring) !== 0)
+  return groupRings(rings, scale)
+}
+
+/**
+ * The signed area of a ring, using the shoelace formula.
+ * Positive when the ring winds counterclockwise in a y-up coordinate system, i.e. clockwise on screen.
+ * @param {Vector2[]} ring
+ * @returns {number}
+ */
+export function signedArea(ring: Vector2[]): number {
+  let area = 0
+  for (let i = 0; i < ring.length; i++) {
+    area += ring[i].cross(ring[(i + 1) % ring.length])
+  }
+  return area / 2
+}
+
+/**
+ * Even-odd point in polygon test.
+ * Credit: https://wrf.ecse.rpi.edu/Research/Short_Notes/pnpoly.html
+ */
+function insideRing(ring: Vector2[], point: Vector2): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]
+    const b = ring[j]
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * True when the point is inside the polygon, according to the even-odd rule.
+ * @param {Rings} rings
+ * @param {Vector2} point
+ * @returns {boolean}
+ */
+export function insideRings(rings: Rings, point: Vector2): boolean {
+  return rings.filter((ring) => insideRing(ring, point)).length % 2 === 1
+}
+
+/**
+ * A point just to the left of the midpoint of the segment.
+ */
+function besideMidpoint(start: Vector2, end: Vector2, scale: number): Vector2 {
+  const direction = end.subtract(start)
+  const length = direction.length()
+  return start
+    .add(end)
+    .divide(2)
+    .add(
+      vec2(-direction.y, direction.x).multiply(
+        Math.min(scale * 1e-9, length * 1e-3) / length,
+      ),
+    )
+}
+
+function ringEdges(ring: Vector2[]): [Vector2, Vector2][] {
+  return ring.map((point, i) => [point, ring[(i + 1) % ring.length]])
+}
+
+/**
+ * Deduplicates points which are within `epsilon` of each other, so that the edges can refer to vertices by index.
+ */
+class VertexPool {
+  points: Vector2[] = []
+  #cells = new Map<string, number[]>()
+  #epsilon: number
+
+  constructor(epsilon: number) {
+    this.#epsilon = epsilon
+  }
+
+  index(point: Vector2): number {
+    const cx = Math.floor(point.x / this.#epsilon)
+    const cy = Math.floor(point.y / this.#epsilon)
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const i of this.#cells.get(`${cx + dx},${cy + dy}`) ?? []) {
+          if (this.points[i].distanceTo(point) <= this.#epsilon) {
+            return i
+          }
+        }
+      }
+    }
+    const key = `${cx},${cy}`
+    this.points.push(point)
+    this.#cells.set(key, [
+      ...(this.#cells.get(key) ?? []),
+      this.points.length - 1,
+    ])
+    return this.points.length - 1
+  }
+}
+
+/**
+ * Splits the segments at their intersections with each other, and removes duplicates.
+ */
+function splitEdges(segments: [Vector2, Vector2][], pool: VertexPool): Edge[] {
+  const splits: Vector2[][] = segments.map(() => [])
+  for (let i = 0; i < segments.length; i++) {
+    const [p, p2] = segments[i]
+    for (let j = i + 1; j < segments.length; j++) {
+      const [q, q2] = segments[j]
+      if (
+        Math.max(p.x, p2.x) < Math.min(q.x, q2.x) ||
+        Math.max(q.x, q2.x) < Math.min(p.x, p2.x) ||
+        Math.max(p.y, p2.y) < Math.min(q.y, q2.y) ||
+        Math.max(q.y, q2.y) < Math.min(p.y, p2.y)
+      ) {
+        continue
+      }
+      const r = p2.subtract(p)
+      const s = q2.subtract(q)
+      const denominator = r.cross(s)
+      const qp = q.subtract(p)
+      if (Math.abs(denominator) <= 1e-12 * r.length() * s.length()) {
+        // parallel; overlapping collinear segments are split at each other's end points
+        if (Math.abs(qp.cross(r)) <= 1e-12 * r.length() * (qp.length() + 1)) {
+          splits[i].push(...[q, q2].filter((v) => between(v, p, p2)))
+          splits[j].push(...[p, p2].filter((v) => between(v, q, q2)))
+        }
+        continue
+      }
+      const t = qp.cross(s) / denominator
+      const u = qp.cross(r) / denominator
+      if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
+        const point = p.add(r.multiply(t))
+        splits[i].push(point)
+        splits[j].push(point)
+      }
+    }
+  }
+
+  const edges: Edge[] = []
+  const seen = new Set<string>()
+  for (const [i, [start, end]] of segments.entries()) {
+    const direction = end.subtract(start)
+    const indices = [start, ...splits[i], end]
+      .sort(
+        (a, b) =>
+          a.subtract(start).dot(direction) - b.subtract(start).dot(direction),
+      )
+      .map((point) => pool.index(point))
+    for (let k = 0; k < indices.length - 1; k++) {
+      const [a, b] = [indices[k], indices[k + 1]]
+      const key = a < b ? `${a},${b}` : `${b},${a}`
+      if (a !== b && !seen.has(key)) {
+        seen.add(key)
+        edges.push({ start: a, end: b })
+      }
+    }
+  }
+  return edges
+}
+
+/**
+ * True when `point` lies strictly between `start` and `end` on a line through them.
+ */
+function between(point: Vector2, start: Vector2, end: Vector2): boolean {
+  const direction = end.subtract(start)
+  const t = point.subtract(start).dot(direction) / direction.dot(direction)
+  return t > 0 && t < 1
+}
+
+/**
+ * Links the directed edges into closed rings of vertex indices.
+ * At vertices with several outgoing edges, the sharpest left turn is taken, so that the ring hugs the region on its left.
+ */
+function linkRings(edges: Edge[], points: Vector2[]): number[][] {
+  const outgoing = new Map<number, Edge[]>()
+  for (const edge of edges) {
+    outgoing.set(edge.start, [...(outgoing.get(edge.start) ?? []), edge])
+  }
+  const used = new Set<Edge>()
+  const rings: number[][] = []
+  for (const first of edges) {
+    if (used.has(first)) {
+      continue
+    }
+    used.add(first)
+    const ring = [first.start]
+    let current = first
+    while (current.end !== first.start) {
+      const incoming = points[current.end].subtract(points[current.start])
+      let next: Edge | undefined
+      let maxTurn = -Infinity
+      for (const candidate of outgoing.get(current.end) ?? []) {
+        if (used.has(candidate)) {
+          continue
+        }
+        const direction = points[candidate.end].subtract(
+          points[candidate.start],
+        )
+        const turn = Math.atan2(
+          incoming.cross(direction),
+          incoming.dot(direction),
+        )
+        if (turn > maxTurn) {
+          maxTurn = turn
+          next = candidate
+        }
+      }
+      if (next === undefined) {
+        break
+      }
+      used.add(next)
+      ring.push(next.start)
+      current = next
+    }
+    if (current.end === first.start) {
+      rings.push(ring)
+    }
+  }
+  return rings
+}
+
+/**
+ * Rings which touch themselves at a vertex are split into separate rings.
+ */
+function splitAtRepeatedVertices(ring: number[]): number[][] {
+  const firstSeen = new Map<number, number>()
+  for (const [position, vertex] of ring.entries()) {
+    const previous = firstSeen.get(vertex)
+    if (previous !== undefined) {
+      return [
+        ...splitAtRepeatedVertices(ring.slice(previous, position)),
+        ...splitAtRepeatedVertices([
+          ...ring.slice(0, previous),
+          ...ring.slice(position),
+        ]),
+      ]
+    }
+    firstSeen.set(vertex, position)
+  }
+  return [ring]
+}
+
+function removeCollinear(ring: Vector2[]): Vector2[] {
+  return ring.filter((point, i) => {
+    const before = ring[(i - 1 + ring.length) % ring.length]
+    const after = ring[(i + 1) % ring.length]
+    const a = point.subtract(before)
+    const b = after.subtract(point)
+    return (
+      Math.abs(a.cross(b)) > 1e-12 * a.length() * b.length() || a.dot(b) < 0
+    )
+  })
+}
+
+/**
+ * Assigns each hole to the smallest outer ring which contains it.
+ */
+function groupRings(rings: Vector2[][], scale: number): Rings[] {
+  const outers = rings
+    .filter((ring) => signedArea(ring) > 0)
+    .sort((a, b) => signedArea(a) - signedArea(b))
+  const polygons: Rings[] = outers.map((outer) => [outer])
+  for (const hole of rings.filter((ring) => signedArea(ring) < 0)) {
+    // a point just outside the hole, i.e. inside the polygon it belongs to
+    const sample = besideMidpoint(hole[0], hole[1], scale)
+    const index = outers.findIndex((outer) => insideRing(outer, sample))
+    if (index !== -1) {
+      polygons[index].push(hole)
+    }
+  }
+  return polygons
+}
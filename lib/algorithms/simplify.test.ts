@@ -0,0 +1,90 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { simplify } from './simplify'
+import { vec2 } from '../vector2'
+
+// a noisy line with a sharp peak in the middle
+const line = [
+  vec2(0, 0),
+  vec2(1, 0.1),
+  vec2(2, -0.1),
+  vec2(3, 0.05),
+  vec2(4, 0),
+  vec2(5, 5),
+  vec2(6, 0),
+  vec2(7, 0.1),
+  vec2(8, 0),
+]
+
+const square = [
+  vec2(0, 0),
+  vec2(2, 0.05),
+  vec2(4, 0),
+  vec2(4.05, 2),
+  vec2(4, 4),
+  vec2(2, 4),
+  vec2(0, 4),
+  vec2(-0.05, 2),
+]
+
+describe('simplify', () => {
+  for (const algorithm of ['rdp', 'visvalingam'] as const) {
+    describe(algorithm, () => {
+      it('removes near-collinear points and preserves the end points', () => {
+        const simplified = simplify(line, 0.5, { algorithm })
+        assert.deepStrictEqual(simplified, [
+          vec2(0, 0),
+          vec2(4, 0),
+          vec2(5, 5),
+          vec2(6, 0),
+          vec2(8, 0),
+        ])
+      })
+
+      it('preserves the end points of a nearly straight line', () => {
+        const simplified = simplify(line.slice(0, 5), 1, { algorithm })
+        assert.deepStrictEqual(simplified, [vec2(0, 0), vec2(4, 0)])
+      })
+
+      it('keeps every point when the tolerance is 0', () => {
+        assert.deepStrictEqual(simplify(line, 0, { algorithm }), line)
+      })
+
+      it('simplifies closed rings to their corners', () => {
+        const simplified = simplify(square, 0.5, {
+          algorithm,
+          preserveClosed: true,
+        })
+        assert.deepStrictEqual(simplified, [
+          vec2(0, 0),
+          vec2(4, 0),
+          vec2(4, 4),
+          vec2(0, 4),
+        ])
+      })
+
+      it('never collapses closed rings below 3 points', () => {
+        const simplified = simplify(square, 100, {
+          algorithm,
+          preserveClosed: true,
+        })
+        assert.strictEqual(simplified.length, 3)
+        assert.deepStrictEqual(simplified[0], square[0])
+      })
+
+      it('keeps a repeated closing point', () => {
+        const simplified = simplify([...square, square[0]], 0.5, {
+          algorithm,
+          preserveClosed: true,
+        })
+        assert.strictEqual(simplified.length, 5)
+        assert.deepStrictEqual(simplified[4], square[0])
+      })
+    })
+  }
+
+  it('returns short lines unchanged', () => {
+    const short = [vec2(0, 0), vec2(1, 1)]
+    assert.deepStrictEqual(simplify(short, 10), short)
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Line simplification, i.e. removing points which contribute little to the shape of a line.
+ *
+ * - Ramer-Douglas-Peucker: https://en.wikipedia.org/wiki/Ramer%E2%80%93Douglas%E2%80%93Peucker_algorithm
+ * - Visvalingam-Whyatt: https://en.wikipedia.org/wiki/Visvalingam%E2%80%93Whyatt_algorithm
+ */
+import { distanceToSegment } from '../math.js'
+import { type Vector2 } from '../vector2.js'
+
+/**
+ * - `rdp`: keeps every point which is further than `tolerance` from the simplified line. Preserves sharp features.
+ * - `visvalingam`: removes the points which form the smallest triangles with their neighbors, until every triangle
+ *   has an area of at least `tolerance²`. Tends to produce smoother, more natural looking results.
+ */
+export type SimplifyAlgorithm = 'rdp' | 'visvalingam'
+
+export type SimplifyOptions = {
+  /**
+   * @default 'rdp'
+   */
+  algorithm?: SimplifyAlgorithm
+  /**
+   * When true, the points are treated as a closed ring: every point may be removed except the first,
+   * and the result never collapses to fewer than 3 points.
+   * If the last point repeats the first, the result will also end with the first point.
+   * When false, the first and last points are always preserved.
+   * @default false
+   */
+  preserveClosed?: boolean
+}
+
+/**
+ * Removes points which do not contribute much to the shape of the line.
+ * @param {Vector2[]} points
+ * @param {number} tolerance the maximum distance between the original and simplified line (see `SimplifyAlgorithm`)
+ * @param {SimplifyOptions} [options]
+ * @returns {Vector2[]}
+ */
+export function simplify(
+  points: Vector2[],
+  tolerance: number,
+  { algorithm = 'rdp', preserveClosed = false }: SimplifyOptions = {},
+): Vector2[] {
+  if (!preserveClosed) {
+    return points.length < 3
+      ? points
+      : algorithm === 'rdp'
+        ? rdp(points, tolerance)
+        : visvalingam(points, tolerance * tolerance, false)
+  }
+  const repeatsStart =
+    points.length > 1 && points[0].eq(points[points.length - 1])
+  const ring = repeatsStart ? points.slice(0, -1) : points
+  if (ring.length <= 3) {
+    return points
+  }
+  const simplified =
+    algorithm === 'rdp'
+      ? rdpRing(ring, tolerance)
+      : visvalingam(ring, tolerance * tolerance, true)
+  return repeatsStart ? [...simplified, simplified[0]] : simplified
+}
+
+function rdp(points: Vector2[], tolerance: number): Vector2[] {
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+  // an explicit stack avoids exceeding the call stack on long lines
+  const stack: [number, number][] = [[0, points.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop() as [number, number]
+    let maxDistance = 0
+    let index = -1
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last])
+      if (distance > maxDistance) {
+        maxDistance = distance
+        index = i
+      }
+    }
+    if (maxDistance > tolerance) {
+      keep[index] = true
+      stack.push([first, index], [index, last])
+    }
+  }
+  return points.filter((_, i) => keep[i])
+}
+
+/**
+ * Simplifies both halves of the ring, split at the point furthest from the start.
+ */
+function rdpRing(ring: Vector2[], tolerance: number): Vector2[] {
+  let split = 1
+  for (let i = 2; i < ring.length; i++) {
+    if (ring[i].distanceTo(ring[0]) > ring[split].distanceTo(ring[0])) {
+      split = i
+    }
+  }
+  const first = rdp(ring.slice(0, split + 1), tolerance)
+  const second = rdp([...ring.slice(split), ring[0]], tolerance)
+  const result = [...first, ...second.slice(1, -1)]
+  if (result.length >= 3) {
+    return result
+  }
+  // the ring would collapse to a line; keep the point furthest from it
+  let furthest = split === 1 ? 2 : 1
+  for (let i = 1; i < ring.length; i++) {
+    if (
+      i !== split &&
+      distanceToSegment(ring[i], ring[0], ring[split]) >
+        distanceToSegment(ring[furthest], ring[0], ring[split])
+    ) {
+      furthest = i
+    }
+  }
+  return [0, split, furthest].sort((a, b) => a - b).map((i) => ring[i])
+}
+
+function visvalingam(
+  points: Vector2[],
+  minArea: number,
+  closed: boolean,
+): Vector2[] {
+  const n = points.length
+  const previous = points.map((_, i) => (i - 1 + n) % n)
+  const next = points.map((_, i) => (i + 1) % n)
+  const removed = new Array<boolean>(n).fill(false)
+  const area = (i: number) =>
+    Math.abs(
+      points[previous[i]]
+        .subtract(points[i])
+        .cross(points[next[i]].subtract(points[i])),
+    ) / 2
+  // the first point is always kept, as well as the last point of open lines
+  const removable = (i: number) => i !== 0 && (closed || i !== n - 1)
+  const areas = points.map((_, i) => (removable(i) ? area(i) : Infinity))
+  let remaining = n
+  while (remaining > (closed ? 3 : 2)) {
+    let min = -1
+    for (let i = 0; i < n; i++) {
+      if (!removed[i] && (min === -1 || areas[i] < areas[min])) {
+        min = i
+      }
+    }
+    if (areas[min] >= minArea) {
+      break
+    }
+    removed[min] = true
+    remaining--
+    next[previous[min]] = next[min]
+    previous[next[min]] = previous[min]
+    // a neighbor's area is never smaller than the area of a point removed before it,
+    // otherwise it would be removed out of order
+    for (const neighbor of [previous[min], next[min]]) {
+      if (removable(neighbor)) {
+        areas[neighbor] = Math.max(area(neighbor), areas[min])
+      }
+    }
+  }
+  return points.filter((_, i) => !removed[i])
+}
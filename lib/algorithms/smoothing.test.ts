@@ -0,0 +1,105 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { chaikin, laplacianSmooth, smooth, taubinSmooth } from './smoothing'
+import { vec2 } from '../vector2'
+
+const corner = [vec2(0, 0), vec2(4, 0), vec2(4, 4)]
+const square = [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)]
+
+describe('chaikin', () => {
+  it('cuts the corners of open lines and keeps the end points', () => {
+    assert.deepStrictEqual(chaikin(corner), [
+      vec2(0, 0),
+      vec2(3, 0),
+      vec2(4, 1),
+      vec2(4, 4),
+    ])
+  })
+
+  it('cuts every corner of closed shapes', () => {
+    assert.deepStrictEqual(chaikin(square, { closed: true }), [
+      vec2(1, 0),
+      vec2(3, 0),
+      vec2(4, 1),
+      vec2(4, 3),
+      vec2(3, 4),
+      vec2(1, 4),
+      vec2(0, 3),
+      vec2(0, 1),
+    ])
+  })
+
+  it('supports multiple iterations and custom ratios', () => {
+    assert.strictEqual(
+      chaikin(square, { closed: true, iterations: 3 }).length,
+      32,
+    )
+    assert.deepStrictEqual(chaikin(corner, { ratio: 0.5 }), [
+      vec2(0, 0),
+      vec2(2, 0),
+      vec2(4, 2),
+      vec2(4, 4),
+    ])
+  })
+
+  it('returns lines with fewer than 3 points unchanged', () => {
+    const line = [vec2(0, 0), vec2(1, 1)]
+    assert.deepStrictEqual(chaikin(line, { iterations: 4 }), line)
+  })
+})
+
+describe('laplacianSmooth', () => {
+  it('moves points toward the average of their neighbors', () => {
+    assert.deepStrictEqual(laplacianSmooth(corner), [
+      vec2(0, 0),
+      vec2(3, 1),
+      vec2(4, 4),
+    ])
+  })
+
+  it('shrinks closed shapes', () => {
+    const smoothed = laplacianSmooth(square, { closed: true, strength: 1 })
+    assert.deepStrictEqual(smoothed, [
+      vec2(2, 2),
+      vec2(2, 2),
+      vec2(2, 2),
+      vec2(2, 2),
+    ])
+  })
+})
+
+describe('taubinSmooth', () => {
+  it('preserves the size of closed shapes better than laplacian smoothing', () => {
+    const circle = Array.from({ length: 16 }, (_, i) =>
+      vec2(Math.cos((i * Math.PI) / 8), Math.sin((i * Math.PI) / 8)),
+    )
+    const radius = (points: typeof circle) =>
+      points.reduce((sum, p) => sum + p.length(), 0) / points.length
+    const laplacian = laplacianSmooth(circle, { closed: true, iterations: 10 })
+    const taubin = taubinSmooth(circle, { closed: true, iterations: 10 })
+    assert(Math.abs(1 - radius(taubin)) < Math.abs(1 - radius(laplacian)))
+  })
+
+  it('keeps the end points of open lines', () => {
+    const smoothed = taubinSmooth(corner, { iterations: 5 })
+    assert.deepStrictEqual(smoothed[0], corner[0])
+    assert.deepStrictEqual(smoothed[2], corner[2])
+  })
+})
+
+describe('smooth', () => {
+  it('uses chaikin by default', () => {
+    assert.deepStrictEqual(smooth(corner), chaikin(corner))
+  })
+
+  it('dispatches to the given method', () => {
+    assert.deepStrictEqual(
+      smooth(corner, { method: 'laplacian', strength: 0.2 }),
+      laplacianSmooth(corner, { strength: 0.2 }),
+    )
+    assert.deepStrictEqual(
+      smooth(square, { method: 'taubin', closed: true }),
+      taubinSmooth(square, { closed: true }),
+    )
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Smoothing operators for lists of points, e.g. to give generated lines a hand-drawn look.
+ *
+ * - Chaikin's corner cutting algorithm: https://www.cs.unc.edu/~dm/UNC/COMP258/LECTURES/Chaikins-Algorithm.pdf
+ * - Laplacian and Taubin smoothing, as described in G. Taubin, "A Signal Processing Approach to Fair Surface Design"
+ */
+import { type Vector2 } from '../vector2.js'
+
+export type ChaikinOptions = {
+  /**
+   * Each iteration roughly doubles the number of points.
+   * @default 1
+   */
+  iterations?: number
+  /**
+   * Where each edge is cut, as a fraction of the edge length from each end. 0.25 is the classic algorithm.
+   * @default 0.25
+   */
+  ratio?: number
+  /**
+   * When false, the first and last points are preserved.
+   * @default false
+   */
+  closed?: boolean
+}
+
+export type LaplacianOptions = {
+  /**
+   * @default 1
+   */
+  iterations?: number
+  /**
+   * How far each point moves toward the average of its neighbors per iteration, between 0 and 1.
+   * @default 0.5
+   */
+  strength?: number
+  /**
+   * When false, the first and last points are preserved.
+   * @default false
+   */
+  closed?: boolean
+}
+
+export type TaubinOptions = {
+  /**
+   * @default 1
+   */
+  iterations?: number
+  /**
+   * The shrinking factor, applied first in each iteration.
+   * @default 0.5
+   */
+  lambda?: number
+  /**
+   * The inflating factor, applied second in each iteration. Must be negative, with a magnitude slightly larger than `lambda`.
+   * @default -0.53
+   */
+  mu?: number
+  /**
+   * When false, the first and last points are preserved.
+   * @default false
+   */
+  closed?: boolean
+}
+
+/**
+ * Selects a smoothing operator and its options. See `chaikin`, `laplacianSmooth` and `taubinSmooth`.
+ */
+export type SmoothOptions =
+  | ({ method?: 'chaikin' } & ChaikinOptions)
+  | ({ method: 'laplacian' } & LaplacianOptions)
+  | ({ method: 'taubin' } & TaubinOptions)
+
+/**
+ * Rounds the corners of a line by repeatedly cutting them off.
+ * The result approximates a quadratic B-spline.
+ * @param {Vector2[]} points
+ * @param {ChaikinOptions} [options]
+ * @returns {Vector2[]}
+ */
+export function chaikin(
+  points: Vector2[],
+  { iterations = 1, ratio = 0.25, closed = false }: ChaikinOptions = {},
+): Vector2[] {
+  let result = points
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const n = result.length
+    if (n < 3) {
+      return result
+    }
+    const next: Vector2[] = closed ? [] : [result[0]]
+    const edgeCount = closed ? n : n - 1
+    for (let i = 0; i < edgeCount; i++) {
+      const a = result[i]
+      const b = result[(i + 1) % n]
+      const offset = b.subtract(a).multiply(ratio)
+      // the cuts next to the end points of open lines would be collinear with the end points
+      if (closed || i > 0) {
+        next.push(a.add(offset))
+      }
+      if (closed || i < edgeCount - 1) {
+        next.push(b.subtract(offset))
+      }
+    }
+    if (!closed) {
+      next.push(result[n - 1])
+    }
+    result = next
+  }
+  return result
+}
+
+/**
+ * Moves each point toward the average of its neighbors.
+ * Repeated iterations shrink the shape; see `taubinSmooth` for an alternative which preserves its size.
+ * @param {Vector2[]} points
+ * @param {LaplacianOptions} [options]
+ * @returns {Vector2[]}
+ */
+export function laplacianSmooth(
+  points: Vector2[],
+  { iterations = 1, strength = 0.5, closed = false }: LaplacianOptions = {},
+): Vector2[] {
+  let result = points
+  for (let i = 0; i < iterations; i++) {
+    result = laplacianStep(result, strength, closed)
+  }
+  return result
+}
+
+/**
+ * Laplacian smoothing which alternates shrinking and inflating steps, so the shape keeps its size.
+ * @param {Vector2[]} points
+ * @param {TaubinOptions} [options]
+ * @returns {Vector2[]}
+ */
+export function taubinSmooth(
+  points: Vector2[],
+  {
+    iterations = 1,
+    lambda = 0.5,
+    mu = -0.53,
+    closed = false,
+  }: TaubinOptions = {},
+): Vector2[] {
+  let result = points
+  for (let i = 0; i < iterations; i++) {
+    result = laplacianStep(laplacianStep(result, lambda, closed), mu, closed)
+  }
+  return result
+}
+
+/**
+ * Smooths the points with the given method.
+ * @param {Vector2[]} points
+ * @param {SmoothOptions} [options] the method defaults to `chaikin`
+ * @returns {Vector2[]}
+ */
+export function smooth(
+  points: Vector2[],
+  options: SmoothOptions = {},
+): Vector2[] {
+  switch (options.method) {
+    case 'laplacian':
+      return laplacianSmooth(points, options)
+    case 'taubin':
+      return taubinSmooth(points, options)
+    default:
+      return chaikin(points, options)
+  }
+}
+
+function laplacianStep(
+  points: Vector2[],
+  factor: number,
+  closed: boolean,
+): Vector2[] {
+  const n = points.length
+  if (n < 3) {
+    return points
+  }
+  return points.map((point, i) => {
+    if (!closed && (i === 0 || i === n - 1)) {
+      return point
+    }
+    const neighbors = points[(i - 1 + n) % n].add(points[(i + 1) % n])
+    return point.add(neighbors.divide(2).subtract(point).multiply(factor))
+  })
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { splineCurves } from './splines'
+import { vec2 } from '../vector2'
+import { assertVectorClose } from '../test-helpers'
+
+const points = [vec2(0, 0), vec2(10, 10), vec2(20, 0), vec2(30, 10)]
+
+describe('splineCurves', () => {
+  it('returns no curves for fewer than 2 points', () => {
+    assert.deepStrictEqual(splineCurves([vec2(1, 1)]), [])
+  })
+
+  for (const type of ['catmullRom', 'centripetal', 'chordal'] as const) {
+    it(`${type} curves pass through every point`, () => {
+      const curves = splineCurves(points, { type })
+      assert.strictEqual(curves.length, 3)
+      for (const [i, curve] of curves.entries()) {
+        assertVectorClose(curve.start, points[i])
+        assertVectorClose(curve.end, points[i + 1])
+      }
+    })
+  }
+
+  it('uses the uniform Catmull-Rom tangents', () => {
+    const [, second] = splineCurves(points, { type: 'catmullRom' })
+    // (p2 - p0) / 6
+    assertVectorClose(second.controlPoint1, vec2(10 + 20 / 6, 10))
+  })
+
+  it('produces straight lines at full tension', () => {
+    const curves = splineCurves(points, { tension: 1 })
+    for (const curve of curves) {
+      assertVectorClose(curve.controlPoint1, curve.start)
+      assertVectorClose(curve.controlPoint2, curve.end)
+    }
+  })
+
+  it('is continuous and smooth at the joins', () => {
+    const curves = splineCurves(points, { type: 'centripetal' })
+    for (let i = 1; i < curves.length; i++) {
+      assertVectorClose(curves[i - 1].end, curves[i].start)
+      assertVectorClose(curves[i - 1].tangentAt(1), curves[i].tangentAt(0))
+    }
+  })
+
+  it('connects the last point to the first when closed', () => {
+    const curves = splineCurves(points, { closed: true })
+    assert.strictEqual(curves.length, 4)
+    assertVectorClose(curves[3].end, points[0])
+    assertVectorClose(curves[3].tangentAt(1), curves[0].tangentAt(0))
+  })
+
+  it('handles repeated points', () => {
+    const curves = splineCurves([vec2(0, 0), vec2(0, 0), vec2(5, 5)])
+    for (const curve of curves) {
+      assert(Number.isFinite(curve.controlPoint1.x))
+      assert(Number.isFinite(curve.controlPoint2.y))
+    }
+  })
+
+  it('bsplines approximate the interior points', () => {
+    const curves = splineCurves(points, { type: 'bspline' })
+    assertVectorClose(curves[0].start, points[0])
+    assertVectorClose(curves[2].end, points[3])
+    assertVectorClose(curves[0].end, vec2(10, 20 / 3))
+  })
+
+  it('closed bsplines are smooth everywhere', () => {
+    const curves = splineCurves(points, { type: 'bspline', closed: true })
+    assertVectorClose(curves[3].end, curves[0].start)
+    assertVectorClose(curves[3].tangentAt(1), curves[0].tangentAt(0))
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Smooth curves through (or near) a list of points, expressed as cubic Bézier curves so they can be drawn with a Path.
+ *
+ * The Catmull-Rom variants use the parameterization described by Yuksel, Schaefer and Keyser in
+ * "Parameterization and Applications of Catmull-Rom Curves": https://www.cemyuksel.com/research/catmullrom_param/
+ */
+import { CubicBezierCurve } from '../curves.js'
+import { type Vector2 } from '../vector2.js'
+
+/**
+ * - `catmullRom`: uniform Catmull-Rom; passes through the points, but can overshoot and form loops when points are unevenly spaced
+ * - `centripetal`: Catmull-Rom which never forms cusps or self-intersections within a segment. Usually the best choice.
+ * - `chordal`: Catmull-Rom which follows the points more loosely, producing rounder curves
+ * - `bspline`: uniform cubic B-spline; approximates the points rather than passing through them (except the end points of open curves)
+ */
+export type SplineType = 'catmullRom' | 'centripetal' | 'chordal' | 'bspline'
+
+export type SplineOptions = {
+  /**
+   * @default 'centripetal'
+   */
+  type?: SplineType
+  /**
+   * Tightens Catmull-Rom curves. 0 is a regular Catmull-Rom curve, 1 produces straight lines.
+   * Ignored for B-splines.
+   * @default 0
+   */
+  tension?: number
+  /**
+   * When true, the curve continues from the last point back to the first.
+   * @default false
+   */
+  closed?: boolean
+}
+
+const ALPHA: Record<Exclude<SplineType, 'bspline'>, number> = {
+  catmullRom: 0,
+  centripetal: 0.5,
+  chordal: 1,
+}
+
+/**
+ * Returns the cubic Bézier curves of a spline through the points.
+ * Open curves have one curve fewer than the number of points; closed curves have one curve per point.
+ * @param {Vector2[]} points
+ * @param {SplineOptions} [options]
+ * @returns {CubicBezierCurve[]}
+ */
+export function splineCurves(
+  points: Vector2[],
+  { type = 'centripetal', tension = 0, closed = false }: SplineOptions = {},
+): CubicBezierCurve[] {
+  const n = points.length
+  if (n < 2) {
+    return []
+  }
+  // open curves are extended with phantom points, reflected through the end points
+  const at = (i: number): Vector2 => {
+    if (closed) {
+      return points[((i % n) + n) % n]
+    }
+    if (i < 0) {
+      return points[0].multiply(2).subtract(points[1])
+    }
+    if (i >= n) {
+      return points[n - 1].multiply(2).subtract(points[n - 2])
+    }
+    return points[i]
+  }
+  const segmentCount = closed ? n : n - 1
+  const curves: CubicBezierCurve[] = []
+  for (let i = 0; i < segmentCount; i++) {
+    const [p0, p1, p2, p3] = [at(i - 1), at(i), at(i + 1), at(i + 2)]
+    curves.push(
+      type === 'bspline'
+        ? bSplineSegment(p0, p1, p2, p3)
+        : catmullRomSegment(p0, p1, p2, p3, ALPHA[type], tension),
+    )
+  }
+  return curves
+}
+
+function catmullRomSegment(
+  p0: Vector2,
+  p1: Vector2,
+  p2: Vector2,
+  p3: Vector2,
+  alpha: number,
+  tension: number,
+): CubicBezierCurve {
+  const d1 = p0.distanceTo(p1) ** alpha
+  const d2 = p1.distanceTo(p2) ** alpha
+  const d3 = p2.distanceTo(p3) ** alpha
+  // coincident neighbors have no influence on the tangent
+  const cp1 =
+    d1 === 0 || d2 === 0
+      ? p1
+      : p2
+          .multiply(d1 * d1)
+          .subtract(p0.multiply(d2 * d2))
+          .add(p1.multiply(2 * d1 * d1 + 3 * d1 * d2 + d2 * d2))
+          .divide(3 * d1 * (d1 + d2))
+  const cp2 =
+    d3 === 0 || d2 === 0
+      ? p2
+      : p1
+          .multiply(d3 * d3)
+          .subtract(p3.multiply(d2 * d2))
+          .add(p2.multiply(2 * d3 * d3 + 3 * d3 * d2 + d2 * d2))
+          .divide(3 * d3 * (d3 + d2))
+  return new CubicBezierCurve(
+    p1,
+    p1.add(cp1.subtract(p1).multiply(1 - tension)),
+    p2.add(cp2.subtract(p2).multiply(1 - tension)),
+    p2,
+  )
+}
+
+function bSplineSegment(
+  p0: Vector2,
+  p1: Vector2,
+  p2: Vector2,
+  p3: Vector2,
+): CubicBezierCurve {
+  return new CubicBezierCurve(
+    p0.add(p1.multiply(4)).add(p2).divide(6),
+    p1.multiply(2).add(p2).divide(3),
+    p1.add(p2.multiply(2)).divide(3),
+    p1.add(p2.multiply(4)).add(p3).divide(6),
+  )
+}
@@ -85,4 +85,15 @@ describe('ColorSequence', () => {
       assert.strictEqual(actual.toRgb().toHex(), '#808080ff')
     })
   })
+
+  describe('stops', () => {
+    it('returns the stops as ColorHsl', () => {
+      const spectrum = ColorSequence.fromColors(['#000', '#fff'])
+      const stops = spectrum.stops
+      assert.strictEqual(stops.length, 2)
+      assert.strictEqual(stops[0][0], 0)
+      assert.strictEqual(stops[1][0], 1)
+      assert(stops[1][1] instanceof ColorHsl)
+    })
+  })
 })
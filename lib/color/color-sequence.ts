@@ -52,6 +52,13 @@ export class ColorSequence {
     )
   }
 
+  /**
+   * The color stops that define this sequence, with colors normalized to ColorHsl.
+   */
+  get stops(): ColorStop[] {
+    return this.#pairs.map(([stopVal, color]) => [stopVal, color])
+  }
+
   /**
    * Returns a linearly interpolated color from the color sequence based on the `t` value.
    */
@@ -1,7 +1,9 @@
 import assert from 'node:assert'
 import { describe, it } from 'node:test'
 import { Circle } from './circle'
+import { Ellipse } from './ellipse'
 import { vec2 } from '../vector2'
+import { Matrix2D } from '../matrix2d'
 
 describe('Circle', () => {
   describe('constructor', () => {
@@ -57,3 +59,47 @@ describe('Circle', () => {
     }
   })
 })
+
+describe('Circle#transformed', () => {
+  it('returns a Circle for similarity transforms', () => {
+    const c = new Circle({ center: vec2(1, 0), radius: 2, fill: '#000' })
+    const t = c.transformed(Matrix2D.rotation(Math.PI / 2).scale(-3, 3))
+    assert(t instanceof Circle)
+    assert(t.center.distanceTo(vec2(0, -3)) < 1e-9)
+    assert(Math.abs(t.radius - 6) < 1e-9)
+    assert.strictEqual(t.attributes.fill, '#000')
+  })
+
+  it('returns an Ellipse for non-uniform transforms', () => {
+    const c = new Circle({ center: vec2(1, 1), radius: 2 })
+    const t = c.transformed(Matrix2D.scaling(1, 3))
+    assert(t instanceof Ellipse)
+    assert(t.center.distanceTo(vec2(1, 3)) < 1e-9)
+    assert(Math.abs(t.rx - 6) < 1e-9)
+    assert(Math.abs(t.ry - 2) < 1e-9)
+    assert(Math.abs(t.rotation - Math.PI / 2) < 1e-9)
+  })
+})
+
+describe('Circle#boundingBox', () => {
+  it('returns the square enclosing the circle', () => {
+    const box = new Circle({ center: vec2(5, 6), radius: 2 }).boundingBox
+    assert.deepStrictEqual([box.x, box.y, box.width, box.height], [3, 4, 4, 4])
+  })
+})
+
+describe('Circle#toPolygon', () => {
+  it('approximates the circle within the tolerance', () => {
+    const c = new Circle({ center: vec2(5, 5), radius: 10, fill: '#000' })
+    const p = c.toPolygon(0.1)
+    assert.strictEqual(p.attributes.fill, '#000')
+    for (const point of p.points) {
+      assert(Math.abs(point.distanceTo(c.center) - 10) < 1e-9)
+    }
+    for (let i = 0; i < p.points.length; i++) {
+      const mid = p.points[i].add(p.points[(i + 1) % p.points.length]).divide(2)
+      assert(10 - mid.distanceTo(c.center) <= 0.1)
+    }
+    assert(c.toPolygon(1).points.length < p.points.length)
+  })
+})
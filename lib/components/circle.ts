@@ -1,4 +1,8 @@
-import { error } from '../internal.js'
+import { error, omit } from '../internal.js'
+import type { Matrix2D } from '../matrix2d.js'
+import { Ellipse } from './ellipse.js'
+import { Rectangle } from './rectangle.js'
+import type { Polygon } from './polygon.js'
 import { Vector2, vec2 } from '../vector2.js'
 import { CommonAttributes, Tag } from './tag.js'
 
@@ -92,6 +96,17 @@ export class Circle extends Tag {
     return this.#center
   }
 
+  /**
+   * @returns {Rectangle}
+   */
+  get boundingBox(): Rectangle {
+    return Rectangle.fromCenter(
+      this.#center,
+      this.#radius * 2,
+      this.#radius * 2,
+    )
+  }
+
   /**
    * Check if the circle contains a point
    * @param {Vector2} point
@@ -219,6 +234,45 @@ export class Circle extends Tag {
     ]
   }
 
+  /**
+   * Approximates the circle with a polygon, e.g. for use in boolean operations.
+   * Transforms applied to this circle (via `transform` or the transform methods) are not copied.
+   * @param {number} [tolerance=0.1] the maximum distance between the circle and the polygon's edges
+   * @returns {Polygon}
+   */
+  toPolygon(tolerance = 0.1): Polygon {
+    return new Ellipse({
+      ...omit(this.attributes, ['cx', 'cy', 'r']),
+      center: this.#center,
+      rx: this.#radius,
+    }).toPolygon(tolerance)
+  }
+
+  /**
+   * Returns a new shape with the matrix applied.
+   * The result is a Circle when the matrix preserves its shape (i.e. only translates, rotates, reflects or uniformly scales),
+   * otherwise an Ellipse.
+   * Transforms applied to this circle (via `transform` or the transform methods) are not copied.
+   * @param {Matrix2D} matrix
+   * @returns {Circle | Ellipse}
+   */
+  transformed(matrix: Matrix2D): Circle | Ellipse {
+    const attributes = omit(this.attributes, ['cx', 'cy', 'r', 'transform'])
+    const center = matrix.apply(this.#center)
+    if (matrix.isSimilarity()) {
+      return new Circle({
+        ...attributes,
+        center,
+        radius: this.#radius * Math.sqrt(Math.abs(matrix.determinant())),
+      })
+    }
+    const { rx, ry, rotation } = matrix.applyToEllipse(
+      this.#radius,
+      this.#radius,
+    )
+    return new Ellipse({ ...attributes, center, rx, ry, rotation })
+  }
+
   toString(): string {
     return `Circle { x: ${this.#x}, y: ${this.#y}, radius: ${this.#radius} }`
   }
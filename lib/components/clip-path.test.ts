@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { ClipPath, clipPath } from './clip-path'
+import { Svg } from './svg'
+import { vec2 } from '../vector2'
+
+describe('clipPath', () => {
+  it('builds content with the shape builder API', () => {
+    const c = clipPath(
+      (c) => {
+        c.circle({ center: vec2(5, 5), radius: 2 })
+        c.rect({ x: 0, y: 0, width: 1, height: 1 })
+      },
+      { id: 'clip', clipPathUnits: 'userSpaceOnUse' },
+    )
+    assert(c instanceof ClipPath)
+    assert.strictEqual(
+      c.render(),
+      '<clipPath id="clip" clipPathUnits="userSpaceOnUse"><circle cx="5" cy="5" r="2"></circle><rect x="0" y="0" width="1" height="1"></rect></clipPath>',
+    )
+  })
+})
+
+describe('Svg#defineClipPath', () => {
+  it('renders the clip path in defs and references it from the clipPath setter', () => {
+    const svg = new Svg({})
+    svg.numericPrecision = 1
+    const clip = svg.defineClipPath((c) => {
+      c.circle({ center: vec2(5.55, 5), radius: 2 })
+    })
+    svg.group((g) => {
+      g.clipPath = clip
+      g.rect({ x: 0, y: 0, width: 10, height: 10 })
+    })
+    const actual = svg.render()
+    assert.ok(
+      actual.includes(
+        `<defs ><clipPath id="${clip.id}"><circle cx="5.6" cy="5" r="2"></circle></clipPath></defs>`,
+      ),
+    )
+    assert.ok(actual.includes(`<g clip-path="url(#${clip.id})">`))
+  })
+
+  it('allows removing the clip path', () => {
+    const svg = new Svg({})
+    svg.clipPath = null
+    assert.ok(svg.render().includes('clip-path="none"'))
+  })
+})
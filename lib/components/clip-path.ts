@@ -0,0 +1,50 @@
+import { randomId } from '../internal.js'
+import { ShapeContainer } from './group.js'
+import { CommonAttributes } from './tag.js'
+
+export type ClipPathAttributes = CommonAttributes & {
+  /**
+   * @default Math.random().toString(16).replace(/^0\./, '')
+   */
+  id?: string
+  /**
+   * @default 'userSpaceOnUse' (when omitted, the renderer default is used)
+   */
+  clipPathUnits?: 'userSpaceOnUse' | 'objectBoundingBox'
+}
+
+/**
+ * A `<clipPath>` resource. Content is added with the same builder API as `Svg` and `Group`.
+ *
+ * @example
+ *   const clip = svg.defineClipPath((c) => {
+ *     c.circle({ center: svg.center, radius: 30 })
+ *   })
+ *   svg.group((g) => {
+ *     g.clipPath = clip
+ *     // flow lines, etc.
+ *   })
+ */
+export class ClipPath extends ShapeContainer {
+  constructor({ id = randomId(), ...attributes }: ClipPathAttributes = {}) {
+    super('clipPath', { id, ...attributes })
+  }
+
+  get id(): string {
+    return this.attributes.id
+  }
+}
+
+/**
+ * @param builder Callback that receives the clip path for building content
+ * @param attributes
+ * @returns The built ClipPath
+ */
+export function clipPath(
+  builder: (clipPath: ClipPath) => void,
+  attributes: ClipPathAttributes = {},
+): ClipPath {
+  const c = new ClipPath(attributes)
+  builder(c)
+  return c
+}
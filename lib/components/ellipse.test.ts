@@ -0,0 +1,163 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { Ellipse, ellipse } from './ellipse'
+import { vec2 } from '../vector2'
+import { Matrix2D } from '../matrix2d'
+
+describe('ellipse', () => {
+  it('can accept a builder', () => {
+    const e = ellipse((e) => {
+      e.center = vec2(5, 6)
+      e.rx = 3
+      e.ry = 2
+    })
+    assert.strictEqual(
+      e.render(),
+      '<ellipse cx="5" cy="6" rx="3" ry="2"></ellipse>',
+    )
+  })
+})
+
+describe('Ellipse', () => {
+  describe('constructor', () => {
+    it('can be constructed with center, rx, ry', () => {
+      const e = new Ellipse({ center: vec2(10, 12), rx: 5, ry: 3 })
+      assert.strictEqual(e.x, 10)
+      assert.strictEqual(e.y, 12)
+      assert.strictEqual(e.rx, 5)
+      assert.strictEqual(e.ry, 3)
+    })
+
+    it('defaults ry to rx', () => {
+      const e = new Ellipse({ x: 0, y: 0, rx: 5 })
+      assert.strictEqual(e.ry, 5)
+      assert.strictEqual(e.attributes.ry, 5)
+    })
+
+    it('will throw error without either (x,y) or center', () => {
+      assert.throws(() => new Ellipse({ rx: 10 }))
+    })
+  })
+
+  describe('render', () => {
+    it('renders rotation as a transform around the center', () => {
+      const e = new Ellipse({
+        center: vec2(10, 20),
+        rx: 5,
+        ry: 3,
+        rotation: Math.PI / 2,
+      })
+      assert.strictEqual(
+        e.render(),
+        '<ellipse cx="10" cy="20" rx="5" ry="3" transform="rotate(90 10 20)"></ellipse>',
+      )
+    })
+
+    it('renders the rotation after other transforms, without storing it', () => {
+      const e = new Ellipse({
+        center: vec2(10, 20),
+        rx: 5,
+        ry: 3,
+        rotation: Math.PI / 2,
+      })
+      e.translate(vec2(1, 2))
+      assert.strictEqual(
+        e.render(),
+        '<ellipse cx="10" cy="20" rx="5" ry="3" transform="translate(1 2) rotate(90 10 20)"></ellipse>',
+      )
+      e.rotation = 0
+      assert.strictEqual(
+        e.render(),
+        '<ellipse cx="10" cy="20" rx="5" ry="3" transform="translate(1 2)"></ellipse>',
+      )
+      assert.strictEqual(e.attributes.transform, undefined)
+    })
+  })
+
+  describe('pointAt', () => {
+    it('returns points on the rotated ellipse', () => {
+      const e = new Ellipse({
+        center: vec2(10, 20),
+        rx: 5,
+        ry: 3,
+        rotation: Math.PI / 2,
+      })
+      const p = e.pointAt(0)
+      assert.ok(Math.abs(p.x - 10) < 1e-9)
+      assert.ok(Math.abs(p.y - 25) < 1e-9)
+    })
+  })
+
+  describe('contains', () => {
+    const e = new Ellipse({
+      center: vec2(0, 0),
+      rx: 10,
+      ry: 2,
+      rotation: Math.PI / 2,
+    })
+    const tests = [
+      [vec2(0, 0), true],
+      [vec2(0, 9), true],
+      [vec2(1.9, 0), true],
+      [vec2(9, 0), false],
+      [vec2(0, 11), false],
+    ] as const
+
+    for (const [point, expected] of tests) {
+      it(`returns ${expected} for ${point}`, () => {
+        assert.strictEqual(e.contains(point), expected)
+      })
+    }
+  })
+
+  describe('boundingBox', () => {
+    it('accounts for rotation', () => {
+      const e = new Ellipse({
+        center: vec2(0, 0),
+        rx: 10,
+        ry: 2,
+        rotation: Math.PI / 2,
+      })
+      const box = e.boundingBox
+      assert.ok(Math.abs(box.width - 4) < 1e-9)
+      assert.ok(Math.abs(box.height - 20) < 1e-9)
+      assert.ok(Math.abs(box.x + 2) < 1e-9)
+      assert.ok(Math.abs(box.y + 10) < 1e-9)
+    })
+  })
+})
+
+describe('Ellipse#transformed', () => {
+  it('keeps points on the ellipse on the transformed ellipse', () => {
+    const e = new Ellipse({ center: vec2(2, 3), rx: 4, ry: 1, rotation: 0.3 })
+    const m = Matrix2D.translation(vec2(5, 0))
+      .rotate(0.6)
+      .skewX(0.4)
+      .scale(2, 1)
+    const t = e.transformed(m)
+    for (const angle of [0, 1, 2, 3, 4, 5]) {
+      const p = m.apply(e.pointAt(angle))
+      const d = p.subtract(t.center)
+      const cos = Math.cos(-t.rotation)
+      const sin = Math.sin(-t.rotation)
+      const x = d.x * cos - d.y * sin
+      const y = d.x * sin + d.y * cos
+      assert(Math.abs((x / t.rx) ** 2 + (y / t.ry) ** 2 - 1) < 1e-9)
+    }
+  })
+})
+
+describe('Ellipse#toPolygon', () => {
+  it('places the points on the rotated ellipse', () => {
+    const e = new Ellipse({
+      center: vec2(0, 0),
+      rx: 4,
+      ry: 2,
+      rotation: Math.PI / 2,
+    })
+    const p = e.toPolygon(0.05)
+    assert.strictEqual(p.attributes.transform, undefined)
+    assert(p.points[0].distanceTo(vec2(0, 4)) < 1e-9)
+    assert(Math.abs(p.boundingBox.height - 8) < 1e-9)
+  })
+})
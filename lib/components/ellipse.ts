@@ -0,0 +1,239 @@
+import { error, omit } from '../internal.js'
+import type { Matrix2D } from '../matrix2d.js'
+import { Radians } from '../types.js'
+import { Vector2, vec2 } from '../vector2.js'
+import { Rectangle } from './rectangle.js'
+import { Polygon } from './polygon.js'
+import { CommonAttributes, Tag, TransformFunction } from './tag.js'
+
+export type EllipseAttributes = CommonAttributes & {
+  x?: number
+  y?: number
+  center?: Vector2
+  /**
+   * @default 1
+   */
+  rx?: number
+  /**
+   * Defaults to `rx` if omitted
+   */
+  ry?: number
+  /**
+   * Rotation of the ellipse's x-axis, in radians, around its center.
+   * @default 0
+   */
+  rotation?: Radians
+}
+
+/**
+ * @example
+ *   const e = ellipse({ center: vec2(50, 50), rx: 20, ry: 10, rotation: Math.PI / 4 })
+ */
+export class Ellipse extends Tag {
+  #center: Vector2
+  #rx: number
+  #ry: number
+  #rotation: Radians
+
+  constructor({
+    x,
+    y,
+    center,
+    rx = 1,
+    ry,
+    rotation = 0,
+    ...attributes
+  }: EllipseAttributes = {}) {
+    const [i, j] =
+      x !== undefined && y !== undefined
+        ? [x, y]
+        : center !== undefined
+          ? [center.x, center.y]
+          : error(
+              'Must pass either `x` and `y` or `center` arguments to Ellipse constructor',
+            )
+    super('ellipse', {
+      cx: i,
+      cy: j,
+      rx,
+      ry: ry ?? rx,
+      ...attributes,
+    })
+    this.#center = vec2(i, j)
+    this.#rx = rx
+    this.#ry = ry ?? rx
+    this.#rotation = rotation
+  }
+
+  set x(value: number) {
+    this.setAttributes({ cx: value })
+    this.#center = vec2(value, this.#center.y)
+  }
+  get x(): number {
+    return this.#center.x
+  }
+
+  set y(value: number) {
+    this.setAttributes({ cy: value })
+    this.#center = vec2(this.#center.x, value)
+  }
+  get y(): number {
+    return this.#center.y
+  }
+
+  set center(value: Vector2) {
+    this.setAttributes({ cx: value.x, cy: value.y })
+    this.#center = value
+  }
+  get center(): Vector2 {
+    return this.#center
+  }
+
+  set rx(value: number) {
+    this.setAttributes({ rx: value })
+    this.#rx = value
+  }
+  get rx(): number {
+    return this.#rx
+  }
+
+  set ry(value: number) {
+    this.setAttributes({ ry: value })
+    this.#ry = value
+  }
+  get ry(): number {
+    return this.#ry
+  }
+
+  set rotation(value: Radians) {
+    this.#rotation = value
+  }
+  get rotation(): Radians {
+    return this.#rotation
+  }
+
+  /**
+   * Returns the point on the ellipse at the given parametric angle.
+   * When `rx === ry`, this is the same as the polar angle from the center.
+   * @param {Radians} angle
+   * @returns {Vector2}
+   */
+  pointAt(angle: Radians): Vector2 {
+    const x = this.#rx * Math.cos(angle)
+    const y = this.#ry * Math.sin(angle)
+    const cos = Math.cos(this.#rotation)
+    const sin = Math.sin(this.#rotation)
+    return vec2(
+      this.#center.x + x * cos - y * sin,
+      this.#center.y + x * sin + y * cos,
+    )
+  }
+
+  /**
+   * Check if the ellipse contains a point
+   * @param {Vector2} point
+   * @returns {boolean}
+   */
+  contains(point: Vector2): boolean {
+    const d = point.subtract(this.#center)
+    const cos = Math.cos(-this.#rotation)
+    const sin = Math.sin(-this.#rotation)
+    const x = d.x * cos - d.y * sin
+    const y = d.x * sin + d.y * cos
+    return (x / this.#rx) ** 2 + (y / this.#ry) ** 2 <= 1
+  }
+
+  /**
+   * The axis-aligned bounding box of the (possibly rotated) ellipse
+   * @returns {Rectangle}
+   */
+  get boundingBox(): Rectangle {
+    const cos = Math.cos(this.#rotation)
+    const sin = Math.sin(this.#rotation)
+    const halfWidth = Math.sqrt((this.#rx * cos) ** 2 + (this.#ry * sin) ** 2)
+    const halfHeight = Math.sqrt((this.#rx * sin) ** 2 + (this.#ry * cos) ** 2)
+    return Rectangle.fromCenter(this.#center, halfWidth * 2, halfHeight * 2)
+  }
+
+  /**
+   * Approximates the ellipse with a polygon, e.g. for use in boolean operations.
+   * Transforms applied to this ellipse (via `transform` or the transform methods) are not copied.
+   * @param {number} [tolerance=0.1] the maximum distance between the ellipse and the polygon's edges
+   * @returns {Polygon}
+   */
+  toPolygon(tolerance = 0.1): Polygon {
+    const radius = Math.max(this.#rx, this.#ry)
+    // the sagitta of each segment's arc must not exceed the tolerance
+    const count =
+      tolerance >= radius
+        ? 3
+        : Math.max(3, Math.ceil(Math.PI / Math.acos(1 - tolerance / radius)))
+    return new Polygon({
+      ...omit(this.attributes, ['cx', 'cy', 'rx', 'ry', 'transform']),
+      points: Array.from({ length: count }, (_, i) =>
+        this.pointAt((i / count) * Math.PI * 2),
+      ),
+    })
+  }
+
+  /**
+   * Returns a new Ellipse with the matrix applied.
+   * Transforms applied to this ellipse (via `transform` or the transform methods) are not copied.
+   * @param {Matrix2D} matrix
+   * @returns {Ellipse}
+   */
+  transformed(matrix: Matrix2D): Ellipse {
+    const { rx, ry, rotation } = matrix.applyToEllipse(
+      this.#rx,
+      this.#ry,
+      this.#rotation,
+    )
+    return new Ellipse({
+      ...omit(this.attributes, ['cx', 'cy', 'rx', 'ry', 'transform']),
+      center: matrix.apply(this.#center),
+      rx,
+      ry,
+      rotation,
+    })
+  }
+
+  /**
+   * @protected
+   * The rotation is rendered as a `rotate` transform around the center.
+   * @returns {TransformFunction[]}
+   */
+  geometryTransforms(): TransformFunction[] {
+    return this.#rotation === 0
+      ? []
+      : [
+          {
+            name: 'rotate',
+            values: [
+              (this.#rotation * 180) / Math.PI,
+              this.#center.x,
+              this.#center.y,
+            ],
+          },
+        ]
+  }
+
+  toString(): string {
+    return `Ellipse { x: ${this.#center.x}, y: ${this.#center.y}, rx: ${this.#rx}, ry: ${this.#ry}, rotation: ${this.#rotation} }`
+  }
+}
+
+export function ellipse(attrs: EllipseAttributes): Ellipse
+export function ellipse(builder: (e: Ellipse) => void): Ellipse
+export function ellipse(
+  attrsOrBuilder: EllipseAttributes | ((e: Ellipse) => void),
+): Ellipse
+export function ellipse(
+  attrsOrBuilder: EllipseAttributes | ((e: Ellipse) => void),
+): Ellipse {
+  if (typeof attrsOrBuilder === 'function') {
+    const e = new Ellipse({ x: 0, y: 0 })
+    attrsOrBuilder(e)
+    return e
+  }
+  return new Ellipse(attrsOrBuilder)
+}
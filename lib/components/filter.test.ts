@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Filter, filter } from './filter'
+import { Svg } from './svg'
+import { ColorRgb } from '../color/rgb'
+
+describe('filter', () => {
+  it('chains primitives by named results', () => {
+    const f = filter(
+      (f) => {
+        const noise = f.turbulence({
+          baseFrequency: [0.8, 0.4],
+          numOctaves: 3,
+          type: 'fractalNoise',
+        })
+        const displaced = f.displacementMap({
+          in: 'SourceGraphic',
+          in2: noise,
+          scale: 4,
+          xChannelSelector: 'R',
+          yChannelSelector: 'G',
+          result: 'displaced',
+        })
+        f.gaussianBlur({ in: displaced, stdDeviation: 0.5 })
+      },
+      { id: 'f' },
+    )
+    assert(f instanceof Filter)
+    assert.strictEqual(
+      f.render(),
+      [
+        '<filter id="f">',
+        '<feTurbulence baseFrequency="0.8 0.4" numOctaves="3" type="fractalNoise" result="f_0"></feTurbulence>',
+        '<feDisplacementMap in="SourceGraphic" in2="f_0" scale="4" xChannelSelector="R" yChannelSelector="G" result="displaced"></feDisplacementMap>',
+        '<feGaussianBlur in="displaced" stdDeviation="0.5" result="f_2"></feGaussianBlur>',
+        '</filter>',
+      ].join(''),
+    )
+  })
+
+  it('renders merge nodes', () => {
+    const f = filter(
+      (f) => {
+        const blur = f.gaussianBlur({ in: 'SourceAlpha', stdDeviation: 2 })
+        const shifted = f.offset({ in: blur, dx: 1, dy: 1 })
+        f.merge([shifted, 'SourceGraphic'], { result: 'merged' })
+      },
+      { id: 'f' },
+    )
+    assert.ok(
+      f
+        .render()
+        .includes(
+          '<feMerge result="merged"><feMergeNode in="f_1"></feMergeNode><feMergeNode in="SourceGraphic"></feMergeNode></feMerge>',
+        ),
+    )
+  })
+
+  it('renders color matrix, composite, blend and morphology primitives', () => {
+    const f = filter(
+      (f) => {
+        f.colorMatrix({ type: 'matrix', values: [1, 0, 0, 0, 0.12345] })
+        f.composite({ in2: 'SourceGraphic', operator: 'arithmetic', k2: 1 })
+        f.blend({ in2: 'SourceGraphic', mode: 'multiply' })
+        f.morphology({ operator: 'dilate', radius: 1 })
+      },
+      { id: 'f' },
+    )
+    f.numericPrecision = 2
+    for (const child of f.children) {
+      child.numericPrecision = 2
+    }
+    const actual = f.render()
+    assert.ok(
+      actual.includes(
+        '<feColorMatrix type="matrix" values="1 0 0 0 0.12" result="f_0">',
+      ),
+    )
+    assert.ok(
+      actual.includes(
+        '<feComposite in2="SourceGraphic" operator="arithmetic" k2="1" result="f_1">',
+      ),
+    )
+    assert.ok(
+      actual.includes(
+        '<feBlend in2="SourceGraphic" mode="multiply" result="f_2">',
+      ),
+    )
+    assert.ok(
+      actual.includes(
+        '<feMorphology operator="dilate" radius="1" result="f_3">',
+      ),
+    )
+  })
+
+  it('renders drop shadow flood attributes in kebab-case', () => {
+    const f = filter(
+      (f) => {
+        f.dropShadow({
+          dx: 1,
+          dy: 2,
+          stdDeviation: 1,
+          floodColor: ColorRgb.Black,
+          floodOpacity: 0.5,
+        })
+      },
+      { id: 'f' },
+    )
+    assert.ok(
+      f
+        .render()
+        .includes(
+          '<feDropShadow dx="1" dy="2" stdDeviation="1" flood-color="rgb(0, 0, 0, 1)" flood-opacity="0.5" result="f_0">',
+        ),
+    )
+  })
+})
+
+describe('Svg#defineFilter', () => {
+  it('renders the filter in defs and references it from the filter setter', () => {
+    const svg = new Svg({})
+    const f = svg.defineFilter((f) => {
+      f.gaussianBlur({ stdDeviation: 1 })
+    })
+    svg.group((g) => {
+      g.filter = f
+    })
+    const actual = svg.render()
+    assert.ok(actual.includes(`<defs ><filter id="${f.id}">`))
+    assert.ok(actual.includes(`<g filter="url(#${f.id})">`))
+  })
+})
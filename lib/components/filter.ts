@@ -0,0 +1,270 @@
+import { ColorHsl } from '../color/hsl.js'
+import { ColorRgb } from '../color/rgb.js'
+import { randomId } from '../internal.js'
+import { CommonAttributes, Tag } from './tag.js'
+
+/**
+ * The input to a filter primitive.
+ * Either one of the standard keywords, a previously added primitive, or the name of a previous primitive's `result`.
+ */
+export type FilterInput =
+  | 'SourceGraphic'
+  | 'SourceAlpha'
+  | 'BackgroundImage'
+  | 'BackgroundAlpha'
+  | 'FillPaint'
+  | 'StrokePaint'
+  | FilterPrimitive
+  | string
+
+export type FilterAttributes = CommonAttributes & {
+  /**
+   * @default Math.random().toString(16).replace(/^0\./, '')
+   */
+  id?: string
+  x?: number | string
+  y?: number | string
+  width?: number | string
+  height?: number | string
+  filterUnits?: 'userSpaceOnUse' | 'objectBoundingBox'
+  primitiveUnits?: 'userSpaceOnUse' | 'objectBoundingBox'
+  colorInterpolationFilters?: 'auto' | 'sRGB' | 'linearRGB'
+}
+
+/**
+ * Attributes shared by every filter primitive.
+ */
+export type FilterPrimitiveAttributes = {
+  /**
+   * The name of the primitive's output, which may be referenced by subsequent primitives.
+   * Defaults to a unique name within the filter.
+   */
+  result?: string
+  x?: number | string
+  y?: number | string
+  width?: number | string
+  height?: number | string
+}
+
+type XY = number | [number, number]
+type ChannelSelector = 'R' | 'G' | 'B' | 'A'
+
+export type GaussianBlurAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  stdDeviation: XY
+  edgeMode?: 'duplicate' | 'wrap' | 'none'
+}
+
+export type TurbulenceAttributes = FilterPrimitiveAttributes & {
+  baseFrequency: XY
+  /**
+   * @default 1 (when omitted, the renderer default is used)
+   */
+  numOctaves?: number
+  seed?: number
+  /**
+   * @default 'turbulence' (when omitted, the renderer default is used)
+   */
+  type?: 'fractalNoise' | 'turbulence'
+  stitchTiles?: 'stitch' | 'noStitch'
+}
+
+export type DisplacementMapAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  in2: FilterInput
+  scale: number
+  xChannelSelector?: ChannelSelector
+  yChannelSelector?: ChannelSelector
+}
+
+export type ColorMatrixAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  type: 'matrix' | 'saturate' | 'hueRotate' | 'luminanceToAlpha'
+  values?: number | number[]
+}
+
+export type CompositeAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  in2: FilterInput
+  operator?: 'over' | 'in' | 'out' | 'atop' | 'xor' | 'lighter' | 'arithmetic'
+  k1?: number
+  k2?: number
+  k3?: number
+  k4?: number
+}
+
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity'
+
+export type BlendAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  in2: FilterInput
+  mode?: BlendMode
+}
+
+export type MorphologyAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  operator: 'erode' | 'dilate'
+  radius: XY
+}
+
+export type OffsetAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  dx?: number
+  dy?: number
+}
+
+export type DropShadowAttributes = FilterPrimitiveAttributes & {
+  in?: FilterInput
+  dx?: number
+  dy?: number
+  stdDeviation?: XY
+  floodColor?: string | ColorRgb | ColorHsl
+  floodOpacity?: number
+}
+
+/**
+ * A single filter primitive, e.g. `<feGaussianBlur>`.
+ * Primitives are created through the methods on `Filter`.
+ */
+export class FilterPrimitive extends Tag {
+  get result(): string {
+    return this.attributes.result
+  }
+}
+
+/**
+ * A `<filter>` resource.
+ * Primitives are added with the methods on this class; each returns the primitive,
+ * which can be passed as the `in` or `in2` of subsequent primitives.
+ * When `in` is omitted, the renderer uses the result of the previous primitive (or `SourceGraphic` for the first primitive).
+ *
+ * @example
+ *   const grain = svg.defineFilter((f) => {
+ *     const noise = f.turbulence({ baseFrequency: 0.8, numOctaves: 3, type: 'fractalNoise' })
+ *     const gray = f.colorMatrix({ in: noise, type: 'saturate', values: 0 })
+ *     f.blend({ in: 'SourceGraphic', in2: gray, mode: 'multiply' })
+ *   })
+ *   svg.group((g) => {
+ *     g.filter = grain
+ *   })
+ */
+export class Filter extends Tag {
+  #primitiveCount = 0
+
+  constructor({ id = randomId(), ...attributes }: FilterAttributes = {}) {
+    super('filter', { id, ...attributes })
+  }
+
+  get id(): string {
+    return this.attributes.id
+  }
+
+  gaussianBlur(attributes: GaussianBlurAttributes): FilterPrimitive {
+    return this.#primitive('feGaussianBlur', attributes)
+  }
+
+  turbulence(attributes: TurbulenceAttributes): FilterPrimitive {
+    return this.#primitive('feTurbulence', attributes)
+  }
+
+  displacementMap(attributes: DisplacementMapAttributes): FilterPrimitive {
+    return this.#primitive('feDisplacementMap', attributes)
+  }
+
+  colorMatrix(attributes: ColorMatrixAttributes): FilterPrimitive {
+    return this.#primitive('feColorMatrix', attributes)
+  }
+
+  composite(attributes: CompositeAttributes): FilterPrimitive {
+    return this.#primitive('feComposite', attributes)
+  }
+
+  blend(attributes: BlendAttributes): FilterPrimitive {
+    return this.#primitive('feBlend', attributes)
+  }
+
+  morphology(attributes: MorphologyAttributes): FilterPrimitive {
+    return this.#primitive('feMorphology', attributes)
+  }
+
+  offset(attributes: OffsetAttributes): FilterPrimitive {
+    return this.#primitive('feOffset', attributes)
+  }
+
+  dropShadow(attributes: DropShadowAttributes): FilterPrimitive {
+    return this.#primitive('feDropShadow', attributes)
+  }
+
+  /**
+   * Layers the inputs on top of each other, in order (the first input is the bottom layer).
+   * @param {FilterInput[]} inputs
+   * @param {FilterPrimitiveAttributes} [attributes]
+   * @returns {FilterPrimitive}
+   */
+  merge(
+    inputs: FilterInput[],
+    attributes: FilterPrimitiveAttributes = {},
+  ): FilterPrimitive {
+    const merge = this.#primitive('feMerge', attributes)
+    for (const input of inputs) {
+      merge.addChild(new Tag('feMergeNode', { in: resolveInput(input) }))
+    }
+    return merge
+  }
+
+  #primitive(
+    tagName: string,
+    {
+      result,
+      ...attributes
+    }: FilterPrimitiveAttributes & {
+      in?: FilterInput
+      in2?: FilterInput
+      [key: string]: unknown
+    },
+  ): FilterPrimitive {
+    const primitive = new FilterPrimitive(tagName, {
+      ...attributes,
+      in: resolveInput(attributes.in),
+      in2: resolveInput(attributes.in2),
+      result: result ?? `${this.id}_${this.#primitiveCount}`,
+    })
+    this.#primitiveCount++
+    this.addChild(primitive)
+    return primitive
+  }
+}
+
+function resolveInput(input?: FilterInput): string | undefined {
+  return input instanceof FilterPrimitive ? input.result : input
+}
+
+/**
+ * @param builder Callback that receives the filter for adding primitives
+ * @param attributes
+ * @returns The built Filter
+ */
+export function filter(
+  builder: (filter: Filter) => void,
+  attributes: FilterAttributes = {},
+): Filter {
+  const f = new Filter(attributes)
+  builder(f)
+  return f
+}
@@ -0,0 +1,98 @@
+import { type ColorSequence, type ColorStop } from '../color/color-sequence.js'
+import { ColorHsl } from '../color/hsl.js'
+import { ColorRgb } from '../color/rgb.js'
+import { randomId } from '../internal.js'
+import { Tag } from './tag.js'
+
+/**
+ * The color inputs shared by all gradients. At least one of `stops`, `colors` or `sequence` is required.
+ * When more than one is provided, `stops` takes precedence over `colors`, which takes precedence over `sequence`.
+ */
+export type GradientColorAttributes = {
+  stops?: ColorStop[]
+  /**
+   * Evenly spaced colors
+   */
+  colors?: Array<ColorRgb | ColorHsl | string>
+  /**
+   * Uses the stops of the sequence, scaled to the same offset range as `colors`
+   */
+  sequence?: ColorSequence
+}
+
+export class GradientStop extends Tag {
+  /** @param {ColorStop} stop */
+  constructor(stop: ColorStop, numericPrecision = Infinity, id = randomId()) {
+    const color = stop[1]
+    // This is used to maintain compatibility with Inkscape
+    const stopColor = deriveStopColor(color)
+    super('stop', {
+      id,
+      offset: stop[0],
+      'stop-color': stop[1],
+      style: [
+        `stop-color:${stopColor.toHex(false)}`,
+        `stop-opacity:${stopColor.a};`,
+      ].join(';'),
+    })
+    this.numericPrecision = numericPrecision
+  }
+}
+
+/**
+ * Builds the `<stop>` children for a gradient.
+ * @param {GradientColorAttributes} colorAttributes
+ * @param {string} gradientId used to derive the stop IDs
+ * @param {number} numericPrecision
+ * @returns {GradientStop[]}
+ */
+export function gradientStops(
+  { stops, colors, sequence }: GradientColorAttributes,
+  gradientId: string,
+  numericPrecision: number,
+): GradientStop[] {
+  const colorStops: [number, ColorHsl | ColorRgb][] =
+    stops?.map(([num, color]) => [
+      num,
+      typeof color === 'string' ? ColorRgb.fromHex(color) : color,
+    ]) ??
+    colors?.map((color, i, array) => [
+      (i / (array.length - 1)) * 100,
+      typeof color === 'string' ? ColorRgb.fromHex(color) : color,
+    ]) ??
+    sequence?.stops.map(([num, color]) => [
+      num * 100,
+      typeof color === 'string' ? ColorRgb.fromHex(color) : color,
+    ]) ??
+    []
+  return colorStops.map(
+    (stop, index) =>
+      new GradientStop(stop, numericPrecision, `${gradientId}_${index}`),
+  )
+}
+
+/**
+ * @param {GradientColorAttributes} colorAttributes
+ * @returns {boolean} true when there is at least one color to build stops from
+ */
+export function hasGradientColors({
+  stops,
+  colors,
+  sequence,
+}: GradientColorAttributes): boolean {
+  return (
+    (stops?.length ?? 0) > 0 ||
+    (colors?.length ?? 0) > 0 ||
+    (sequence?.stops.length ?? 0) > 0
+  )
+}
+
+function deriveStopColor(color: ColorRgb | ColorHsl | string): ColorRgb {
+  if (color instanceof ColorRgb) {
+    return color
+  }
+  if (color instanceof ColorHsl) {
+    return color.toRgb()
+  }
+  return ColorRgb.fromHex(color)
+}
@@ -0,0 +1,82 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { Group } from './group'
+import { Rectangle } from './rectangle'
+import { Circle } from './circle'
+import { Ellipse } from './ellipse'
+import { Line } from './line'
+import { Text } from './text'
+import { vec2 } from '../vector2'
+
+describe('Group#centerIn', () => {
+  const target = new Rectangle({ x: 0, y: 0, width: 100, height: 50 })
+
+  it('only centers the content by default', () => {
+    const g = new Group()
+    g.circle(new Circle({ center: vec2(0, 0), radius: 5 }))
+    g.centerIn(target)
+    assert.strictEqual(
+      g.render(),
+      '<g transform="translate(50 25) scale(1 1)"><circle cx="0" cy="0" r="5"></circle></g>',
+    )
+  })
+
+  it('scales the content to fit within the target', () => {
+    const g = new Group()
+    g.rect(new Rectangle({ x: -1, y: -1, width: 2, height: 2 }))
+    g.centerIn(target, { mode: 'contain', padding: 5 })
+    const box = Rectangle.fromPoints(
+      g.boundingBox.vertices().map((v) => g.transformMatrix().apply(v)),
+    )
+    assert.deepStrictEqual(
+      [box.x, box.y, box.width, box.height],
+      [30, 5, 40, 40],
+    )
+  })
+
+  it('scales the content to cover the target', () => {
+    const g = new Group()
+    g.rect(new Rectangle({ x: -1, y: -1, width: 2, height: 2 }))
+    g.centerIn(target, { mode: 'cover' })
+    const box = Rectangle.fromPoints(
+      g.boundingBox.vertices().map((v) => g.transformMatrix().apply(v)),
+    )
+    assert.deepStrictEqual(
+      [box.x, box.y, box.width, box.height],
+      [0, -25, 100, 100],
+    )
+  })
+
+  it('applies after existing transforms', () => {
+    const g = new Group()
+    g.rect(new Rectangle({ x: 0, y: 0, width: 1, height: 1 }))
+    g.scale(10)
+    g.centerIn(target)
+    const box = Rectangle.fromPoints(
+      g.boundingBox.vertices().map((v) => g.transformMatrix().apply(v)),
+    )
+    assert.deepStrictEqual(
+      [box.x, box.y, box.width, box.height],
+      [45, 20, 10, 10],
+    )
+  })
+
+  it('does nothing without shapes', () => {
+    const g = new Group()
+    g.centerIn(target, { mode: 'contain' })
+    assert.strictEqual(g.transforms.length, 0)
+  })
+})
+
+describe('ShapeContainer', () => {
+  it('adds text, ellipses and lines from attributes', () => {
+    const g = new Group()
+    g.text({ content: 'hi', x: 1, y: 2 })
+    g.ellipse({ x: 0, y: 0, rx: 2, ry: 1 })
+    g.line({ start: vec2(0, 0), end: vec2(1, 1) })
+    assert.deepStrictEqual(
+      g.children.map((child) => child.constructor),
+      [Text, Ellipse, Line],
+    )
+  })
+})
@@ -1,11 +1,53 @@
 import { CommonAttributes, Tag } from './tag.js'
 import { Circle, circle } from './circle.js'
+import { Ellipse, ellipse } from './ellipse.js'
+import { Line, line } from './line.js'
 import { Path, path } from './path.js'
 import { Rectangle, rect } from './rectangle.js'
 import { Polyline, LineSegment, polyline, lineSegment } from './polyline.js'
 import { polygon, Polygon } from './polygon.js'
+import { Text, text } from './text.js'
+import { Use, UseAttributes } from './use.js'
+import type { SvgSymbol } from './symbol.js'
 import { Vector2 } from '../vector2.js'
 import { error } from '../internal.js'
+import { Matrix2D } from '../matrix2d.js'
+
+/**
+ * A shape which can report its bounds, and optionally bake a transform into its geometry
+ */
+type Bounded = Tag & {
+  boundingBox: Rectangle
+  transformed?: (matrix: Matrix2D) => Bounded
+}
+
+export type BoundingBoxOptions = {
+  /**
+   * When true, the transforms applied to children (via `translate`, `rotate`, etc.) are included.
+   * Transforms applied to the container itself are never included,
+   * in the same way that a shape's bounding box does not include its own transforms.
+   * Note: `transform` attributes that were set directly are not included.
+   * @default true
+   */
+  applyTransforms?: boolean
+}
+
+/**
+ * How content is scaled when fitting it into a rectangle.
+ * - `contain`: scales the content so it fits entirely within the rectangle
+ * - `cover`: scales the content so it fills the rectangle; the overflow will be cropped by the viewport
+ * - `none`: does not scale the content, only centers it
+ */
+export type FitMode = 'contain' | 'cover' | 'none'
+
+export type FitOptions = {
+  /**
+   * Space to leave between the content and each edge of the rectangle.
+   * @default 0
+   */
+  padding?: number
+  mode?: FitMode
+}
 
 /**
  * Base class for SVG elements that can contain shapes (paths, circles, etc.).
@@ -13,6 +55,102 @@ import { error } from '../internal.js'
  * Svg is the source of truth for method signatures and behavior.
  */
 export abstract class ShapeContainer extends Tag {
+  /**
+   * The bounding box of all the shapes in the container, including the transforms applied to children.
+   * Returns an empty rectangle when the container has no shapes.
+   * @returns {Rectangle}
+   */
+  get boundingBox(): Rectangle {
+    return this.computeBoundingBox()
+  }
+
+  /**
+   * @param {BoundingBoxOptions} [options]
+   * @returns {Rectangle}
+   */
+  computeBoundingBox({
+    applyTransforms = true,
+  }: BoundingBoxOptions = {}): Rectangle {
+    return Rectangle.fromPoints(
+      this.#boundingBoxes(Matrix2D.identity(), applyTransforms).flatMap((box) =>
+        box.vertices(),
+      ),
+    )
+  }
+
+  /**
+   * Moves the container so that its content is centered in the rectangle, optionally scaling it to fit.
+   * The content is measured including all transforms (the container's own and its children's).
+   * The transforms are prepended, so they are applied after any existing transforms on the container.
+   * Does nothing when the container has no shapes.
+   * @example
+   *   const g = new Group()
+   *   g.polygons(shapesInNoiseSpace)
+   *   g.centerIn(new Rectangle({ x: 0, y: 0, width: 100, height: 100 }), { mode: 'contain', padding: 5 })
+   * @param {Rectangle} target
+   * @param {FitOptions} [options]
+   * @returns {this}
+   */
+  centerIn(
+    target: Rectangle,
+    { padding = 0, mode = 'none' }: FitOptions = {},
+  ): this {
+    const boxes = this.#boundingBoxes(this.transformMatrix(), true)
+    if (boxes.length === 0) {
+      return this
+    }
+    const box = Rectangle.fromPoints(boxes.flatMap((b) => b.vertices()))
+    // degenerate dimensions (e.g. a horizontal line) do not constrain the scale
+    const ratios = [
+      box.width > 0 ? (target.width - 2 * padding) / box.width : Infinity,
+      box.height > 0 ? (target.height - 2 * padding) / box.height : Infinity,
+    ].filter(Number.isFinite)
+    const scale =
+      mode === 'none' || ratios.length === 0
+        ? 1
+        : mode === 'contain'
+          ? Math.min(...ratios)
+          : Math.max(...ratios)
+    const offset = target.center.subtract(box.center.multiply(scale))
+    this.prependTransforms(
+      { name: 'translate', values: [offset.x, offset.y] },
+      { name: 'scale', values: [scale, scale] },
+    )
+    return this
+  }
+
+  /**
+   * Collects the bounding boxes of all shapes in the container, recursively, in the coordinates of `matrix`.
+   * Elements without geometry (e.g. text, resources such as gradients, or a polygon without points) are skipped.
+   */
+  #boundingBoxes(matrix: Matrix2D, applyTransforms: boolean): Rectangle[] {
+    return this.children.flatMap((child) => {
+      if (child.isDefinable()) {
+        return []
+      }
+      const m = applyTransforms
+        ? matrix.multiply(child.transformMatrix())
+        : matrix
+      if (child instanceof ShapeContainer) {
+        return child.#boundingBoxes(m, applyTransforms)
+      }
+      if (!isBounded(child) || isEmpty(child)) {
+        return []
+      }
+      if (m.isIdentity()) {
+        return [child.boundingBox]
+      }
+      // shapes which can bake the transform have an exact bounding box; otherwise, transform the corners
+      return child.transformed
+        ? [child.transformed(m).boundingBox]
+        : [
+            Rectangle.fromPoints(
+              child.boundingBox.vertices().map((v) => m.apply(v)),
+            ),
+          ]
+    })
+  }
+
   path(instanceOrBuilder: Path | Parameters<typeof path>[0]): Tag {
     return instanceOrBuilder instanceof Path
       ? this.addChild(instanceOrBuilder)
@@ -55,6 +193,41 @@ export abstract class ShapeContainer extends Tag {
     }
   }
 
+  ellipse(instanceOrBuilder: Ellipse | Parameters<typeof ellipse>[0]): Tag {
+    return instanceOrBuilder instanceof Ellipse
+      ? this.addChild(instanceOrBuilder)
+      : this.addChild(ellipse(instanceOrBuilder))
+  }
+
+  ellipses(es: Ellipse[]): void {
+    for (const e of es) {
+      this.ellipse(e)
+    }
+  }
+
+  line(start: Vector2, end: Vector2): Tag
+  line(instanceOrBuilder: Line | Parameters<typeof line>[0]): Tag
+  line(
+    instanceOrBuilderOrStart: Line | Vector2 | Parameters<typeof line>[0],
+    end?: Vector2,
+  ): Tag {
+    if (instanceOrBuilderOrStart instanceof Line) {
+      return this.addChild(instanceOrBuilderOrStart)
+    }
+    if (instanceOrBuilderOrStart instanceof Vector2) {
+      return end
+        ? this.addChild(line(instanceOrBuilderOrStart, end))
+        : error('Invalid line, must include both start and end points')
+    }
+    return this.addChild(line(instanceOrBuilderOrStart))
+  }
+
+  lines(ls: Line[]): void {
+    for (const l of ls) {
+      this.line(l)
+    }
+  }
+
   rect(instanceOrBuilder: Rectangle | Parameters<typeof rect>[0]): Tag {
     return instanceOrBuilder instanceof Rectangle
       ? this.addChild(instanceOrBuilder)
@@ -91,6 +264,23 @@ export abstract class ShapeContainer extends Tag {
     }
   }
 
+  text(instanceOrBuilder: Text | Parameters<typeof text>[0]): Tag {
+    return instanceOrBuilder instanceof Text
+      ? this.addChild(instanceOrBuilder)
+      : this.addChild(text(instanceOrBuilder))
+  }
+
+  /**
+   * Instances a symbol with a `<use>` element.
+   * @param {SvgSymbol | string} symbol the symbol, or the ID of the symbol, to instance
+   * @param {UseAttributes} [attributes]
+   */
+  use(symbol: SvgSymbol | string, attributes: UseAttributes = {}): Use {
+    const use = new Use(symbol, attributes)
+    this.addChild(use)
+    return use
+  }
+
   group(instanceOrBuilder: Group | Parameters<typeof group>[0]): Tag {
     return instanceOrBuilder instanceof Group
       ? this.addChild(instanceOrBuilder)
@@ -98,9 +288,12 @@ export abstract class ShapeContainer extends Tag {
   }
 }
 
+export type GroupAttributes = CommonAttributes & Record<string, unknown>
+
 /**
  * An SVG group (`<g>`) element for organizing elements.
  * Supports the builder pattern via the `group()` function.
+ * Transforms (`translate`, `rotate`, `scale`, etc.) applied to a group apply to all of its children.
  *
  * @example
  * svg({ width: 100, height: 100 }, (doc) => {
@@ -116,9 +309,15 @@ export abstract class ShapeContainer extends Tag {
  *     });
  *   });
  * });
+ *
+ * @example
+ * svg({ width: 100, height: 100 }, (doc) => {
+ *   doc.group((g) => {
+ *     g.translate(doc.center).rotate(Math.PI / 4).scale(2);
+ *     g.rect({ x: -5, y: -5, width: 10, height: 10 });
+ *   });
+ * });
  */
-export type GroupAttributes = CommonAttributes & Record<string, unknown>
-
 export class Group extends ShapeContainer {
   constructor(attributes: GroupAttributes = {}) {
     super('g', attributes)
@@ -136,3 +335,20 @@ export function group(builder: (group: Group) => void): Group {
   builder(g)
   return g
 }
+
+function isBounded(tag: Tag): tag is Bounded {
+  return (tag as Bounded).boundingBox instanceof Rectangle
+}
+
+/**
+ * Shapes without any points have a meaningless bounding box.
+ */
+function isEmpty(tag: Tag): boolean {
+  if (tag instanceof Path) {
+    return tag.segments().length === 0
+  }
+  if (tag instanceof Polygon || tag instanceof Polyline) {
+    return tag.points.length === 0
+  }
+  return false
+}
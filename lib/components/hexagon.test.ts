@@ -77,3 +77,14 @@ describe('Hexagon', () => {
     })
   })
 })
+
+describe('Hexagon measures', () => {
+  it('inherits the polygon measures', () => {
+    const h = new Hexagon({ center: vec2(5, 5), circumradius: 2 })
+    assert(Math.abs(Math.abs(h.area()) - (3 * Math.sqrt(3) * 4) / 2) < 1e-9)
+    assert(h.centroid().distanceTo(vec2(5, 5)) < 1e-9)
+    assert(Math.abs(h.perimeter() - 12) < 1e-9)
+    assert(h.isConvex())
+    assert.strictEqual(h.edges().length, 6)
+  })
+})
@@ -1,11 +1,23 @@
 export * from './circle.js'
+export * from './clip-path.js'
 export * from './defs.js'
+export * from './ellipse.js'
+export * from './filter.js'
+export * from './gradient-stop.js'
 export * from './linear-gradient.js'
 export * from './group.js'
 export * from './hexagon.js'
+export * from './line.js'
+export * from './marker.js'
+export * from './mask.js'
 export * from './path.js'
+export * from './pattern.js'
 export * from './polygon.js'
 export * from './polyline.js'
+export * from './radial-gradient.js'
 export * from './rectangle.js'
 export * from './svg.js'
+export * from './symbol.js'
 export * from './tag.js'
+export * from './text.js'
+export * from './use.js'
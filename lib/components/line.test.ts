@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Line, line } from './line'
+import { Svg } from './svg'
+import { vec2 } from '../vector2'
+import { Matrix2D } from '../matrix2d'
+
+describe('line', () => {
+  it('can accept start and end', () => {
+    const l = line(vec2(0, 0), vec2(3, 4))
+    assert(l instanceof Line)
+    assert.strictEqual(l.length(), 5)
+  })
+
+  it('can accept a builder', () => {
+    const l = line((l) => {
+      l.start = vec2(1, 2)
+      l.end = vec2(3, 4)
+    })
+    assert.strictEqual(l.render(), '<line x1="1" y1="2" x2="3" y2="4"></line>')
+  })
+})
+
+describe('Line', () => {
+  it('uses correct precision', () => {
+    const l = new Line({ start: vec2(0.1234, 0), end: vec2(1, 1.5678) })
+    l.numericPrecision = 2
+    assert.strictEqual(
+      l.render(),
+      '<line x1="0.12" y1="0" x2="1" y2="1.57"></line>',
+    )
+  })
+
+  it('can be added to an Svg', () => {
+    const svg = new Svg({})
+    svg.line(vec2(0, 0), vec2(10, 20))
+    svg.ellipse({ center: vec2(1, 1), rx: 2, ry: 1 })
+    const actual = svg.render()
+    assert.ok(actual.includes('<line x1="0" y1="0" x2="10" y2="20"></line>'))
+    assert.ok(
+      actual.includes('<ellipse cx="1" cy="1" rx="2" ry="1"></ellipse>'),
+    )
+  })
+})
+
+describe('Line#boundingBox', () => {
+  it('returns the box spanned by the end points', () => {
+    const box = new Line({ start: vec2(4, 1), end: vec2(1, 3) }).boundingBox
+    assert.deepStrictEqual([box.x, box.y, box.width, box.height], [1, 1, 3, 2])
+  })
+})
+
+describe('Line#transformed', () => {
+  it('transforms the end points', () => {
+    const l = new Line({ start: vec2(0, 0), end: vec2(1, 2), stroke: '#000' })
+    const t = l.transformed(Matrix2D.translation(vec2(1, 1)).scale(2))
+    assert.strictEqual(
+      t.render(),
+      '<line x1="1" y1="1" x2="3" y2="5" stroke="#000"></line>',
+    )
+  })
+})
@@ -0,0 +1,107 @@
+import { omit } from '../internal.js'
+import type { Matrix2D } from '../matrix2d.js'
+import { Vector2, vec2 } from '../vector2.js'
+import { Rectangle } from './rectangle.js'
+import { CommonAttributes, Tag } from './tag.js'
+
+export type LineAttributes = CommonAttributes & {
+  /**
+   * @default vec2(0, 0)
+   */
+  start?: Vector2
+  /**
+   * @default vec2(0, 0)
+   */
+  end?: Vector2
+}
+
+/**
+ * A straight line, rendered as an SVG `<line>` tag.
+ * Unlike `LineSegment`, which renders as a two-point `<polyline>`.
+ *
+ * @example
+ *   const l = line(vec2(0, 0), vec2(10, 10))
+ */
+export class Line extends Tag {
+  #start: Vector2
+  #end: Vector2
+
+  constructor({
+    start = vec2(0, 0),
+    end = vec2(0, 0),
+    ...attributes
+  }: LineAttributes = {}) {
+    super('line', {
+      x1: start.x,
+      y1: start.y,
+      x2: end.x,
+      y2: end.y,
+      ...attributes,
+    })
+    this.#start = start
+    this.#end = end
+  }
+
+  set start(value: Vector2) {
+    this.setAttributes({ x1: value.x, y1: value.y })
+    this.#start = value
+  }
+  get start(): Vector2 {
+    return this.#start
+  }
+
+  set end(value: Vector2) {
+    this.setAttributes({ x2: value.x, y2: value.y })
+    this.#end = value
+  }
+  get end(): Vector2 {
+    return this.#end
+  }
+
+  /**
+   * @returns {number}
+   */
+  length(): number {
+    return this.#start.distanceTo(this.#end)
+  }
+
+  /**
+   * @returns {Rectangle}
+   */
+  get boundingBox(): Rectangle {
+    return Rectangle.fromPoints([this.#start, this.#end])
+  }
+
+  /**
+   * Returns a new Line with the matrix applied to its end points.
+   * Transforms applied to this line (via `transform` or the transform methods) are not copied.
+   * @param {Matrix2D} matrix
+   * @returns {Line}
+   */
+  transformed(matrix: Matrix2D): Line {
+    return new Line({
+      ...omit(this.attributes, ['x1', 'y1', 'x2', 'y2', 'transform']),
+      start: matrix.apply(this.#start),
+      end: matrix.apply(this.#end),
+    })
+  }
+}
+
+export function line(attrs: LineAttributes): Line
+export function line(start: Vector2, end: Vector2): Line
+export function line(builder: (l: Line) => void): Line
+export function line(attrsOrBuilder: LineAttributes | ((l: Line) => void)): Line
+export function line(
+  attrsOrBuilderOrStart: LineAttributes | Vector2 | ((l: Line) => void),
+  end?: Vector2,
+): Line {
+  if (typeof attrsOrBuilderOrStart === 'function') {
+    const l = new Line()
+    attrsOrBuilderOrStart(l)
+    return l
+  }
+  if (attrsOrBuilderOrStart instanceof Vector2) {
+    return new Line({ start: attrsOrBuilderOrStart, end })
+  }
+  return new Line(attrsOrBuilderOrStart)
+}
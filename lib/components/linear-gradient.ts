@@ -1,40 +1,43 @@
-import { type ColorStop } from '../color/color-sequence.js'
-import { ColorHsl } from '../color/hsl.js'
-import { ColorRgb } from '../color/rgb.js'
+import { randomId } from '../internal.js'
 import { Vector2, vec2 } from '../vector2.js'
+import {
+  GradientColorAttributes,
+  gradientStops,
+  hasGradientColors,
+} from './gradient-stop.js'
 import { CommonAttributes, Tag } from './tag.js'
 
-export type LinearGradientAttributes = CommonAttributes & {
-  stops?: ColorStop[]
-  colors?: Array<ColorRgb | ColorHsl | string>
-  /**
-   * @default new Vector2(0, 0)
-   */
-  start?: Vector2
-  /**
-   * @default new Vector2(0, 1)
-   */
-  end?: Vector2
-  /**
-   * @default Math.random().toString(16).replace(/^0\./, '')
-   */
-  id?: string
-  /**
-   * @default Infinity
-   */
-  numericPrecision?: number
-}
+export type LinearGradientAttributes = CommonAttributes &
+  GradientColorAttributes & {
+    /**
+     * @default new Vector2(0, 0)
+     */
+    start?: Vector2
+    /**
+     * @default new Vector2(0, 1)
+     */
+    end?: Vector2
+    /**
+     * @default Math.random().toString(16).replace(/^0\./, '')
+     */
+    id?: string
+    /**
+     * @default Infinity
+     */
+    numericPrecision?: number
+  }
 
 export class LinearGradient extends Tag {
   constructor({
     stops,
     colors,
+    sequence,
     start = vec2(0, 0),
     end = vec2(0, 1),
-    id = Math.random().toString(16).replace(/^0\./, ''),
+    id = randomId(),
     numericPrecision = Infinity,
   }: LinearGradientAttributes = {}) {
-    if ((stops?.length ?? 0) === 0 && (colors?.length ?? 0) === 0) {
+    if (!hasGradientColors({ stops, colors, sequence })) {
       throw new Error(
         'Cannot create linear gradient without at least one stop or color',
       )
@@ -48,61 +51,14 @@ export class LinearGradient extends Tag {
       id,
     })
     this.numericPrecision = numericPrecision
-    const colorStops: [number, ColorHsl | ColorRgb][] =
-      stops?.map(([num, color]) => [
-        num,
-        typeof color === 'string' ? ColorRgb.fromHex(color) : color,
-      ]) ??
-      colors?.map((color, i, array) => [
-        (i / (array.length - 1)) * 100,
-        typeof color === 'string' ? ColorRgb.fromHex(color) : color,
-      ]) ??
-      []
-    this.children =
-      colorStops?.map(
-        (stop, index) =>
-          new LinearGradientStop(
-            stop,
-            this.numericPrecision,
-            `${this.id}_${index}`,
-          ),
-      ) ?? []
+    this.children = gradientStops(
+      { stops, colors, sequence },
+      this.id,
+      this.numericPrecision,
+    )
   }
 
   get id(): string {
     return this.attributes.id
   }
 }
-
-class LinearGradientStop extends Tag {
-  /** @param {ColorStop} stop */
-  constructor(
-    stop: ColorStop,
-    numericPrecision = Infinity,
-    id = Math.random().toString(16).replace(/^0\./, ''),
-  ) {
-    const color = stop[1]
-    // This is used to maintain compatibility with Inkscape
-    const stopColor = deriveStopColor(color)
-    super('stop', {
-      id,
-      offset: stop[0],
-      'stop-color': stop[1],
-      style: [
-        `stop-color:${stopColor.toHex(false)}`,
-        `stop-opacity:${stopColor.a};`,
-      ].join(';'),
-    })
-    this.numericPrecision = numericPrecision
-  }
-}
-
-function deriveStopColor(color: ColorRgb | ColorHsl | string): ColorRgb {
-  if (color instanceof ColorRgb) {
-    return color
-  }
-  if (color instanceof ColorHsl) {
-    return color.toRgb()
-  }
-  return ColorRgb.fromHex(color)
-}
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Marker, marker } from './marker'
+import { path } from './path'
+import { Polyline, lineSegment } from './polyline'
+import { Svg } from './svg'
+import { vec2 } from '../vector2'
+
+describe('marker', () => {
+  it('builds content with the shape builder API', () => {
+    const m = marker(
+      { id: 'm', refX: 2, refY: 1, markerWidth: 2, markerHeight: 2 },
+      (m) => {
+        m.polygon({ points: [vec2(0, 0), vec2(2, 1), vec2(0, 2)] })
+      },
+    )
+    assert(m instanceof Marker)
+    assert.strictEqual(
+      m.render(),
+      '<marker id="m" refX="2" refY="1" orient="auto" markerWidth="2" markerHeight="2"><polygon points="0,0 2,1 0,2"></polygon></marker>',
+    )
+  })
+
+  it('converts numeric orientation from radians to degrees', () => {
+    const m = marker({ id: 'm', orient: Math.PI / 2 }, () => {})
+    assert.strictEqual(m.attributes.orient, 90)
+  })
+})
+
+describe('marker setters', () => {
+  const m = new Marker({ id: 'arrow' })
+
+  it('sets marker references on Path', () => {
+    const p = path((p) => {
+      p.moveTo(vec2(0, 0))
+      p.lineTo(vec2(1, 1))
+      p.markerStart = m
+      p.markerMid = 'url(#other)'
+      p.markerEnd = null
+    })
+    assert.strictEqual(
+      p.render(),
+      '<path marker-start="url(#arrow)" marker-mid="url(#other)" marker-end="none" d="M 0 0 L 1 1"></path>',
+    )
+  })
+
+  it('sets marker references on Polyline and LineSegment', () => {
+    const p = new Polyline({ points: [vec2(0, 0), vec2(1, 1)] })
+    p.markerEnd = m
+    assert.ok(p.render().includes('marker-end="url(#arrow)"'))
+    const l = lineSegment(vec2(0, 0), vec2(1, 1))
+    l.markerStart = m
+    assert.ok(l.render().includes('marker-start="url(#arrow)"'))
+  })
+})
+
+describe('Svg#defineMarker', () => {
+  it('renders the marker in defs', () => {
+    const svg = new Svg({})
+    const m = svg.defineMarker({ markerWidth: 2 }, (m) => {
+      m.circle({ x: 1, y: 1, radius: 1 })
+    })
+    svg.lineSegment(vec2(0, 0), vec2(1, 1)).setAttributes({ markerEnd: m })
+    const actual = svg.render()
+    assert.ok(actual.includes(`<defs ><marker id="${m.id}"`))
+    assert.ok(actual.includes(`marker-end="url(#${m.id})"`))
+  })
+})
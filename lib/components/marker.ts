@@ -0,0 +1,95 @@
+import { randomId } from '../internal.js'
+import { Radians } from '../types.js'
+import { ShapeContainer } from './group.js'
+import { CommonAttributes } from './tag.js'
+
+export type MarkerOrientation = 'auto' | 'auto-start-reverse' | Radians
+
+export type MarkerAttributes = CommonAttributes & {
+  /**
+   * The x coordinate within the marker content which is placed on the vertex
+   * @default 0
+   */
+  refX?: number
+  /**
+   * The y coordinate within the marker content which is placed on the vertex
+   * @default 0
+   */
+  refY?: number
+  /**
+   * @default 3 (when omitted, the renderer default is used)
+   */
+  markerWidth?: number
+  /**
+   * @default 3 (when omitted, the renderer default is used)
+   */
+  markerHeight?: number
+  /**
+   * 'auto' rotates the marker to follow the direction of the line.
+   * A number is a fixed rotation, in radians.
+   * @default 'auto'
+   */
+  orient?: MarkerOrientation
+  /**
+   * @default 'strokeWidth' (when omitted, the renderer default is used)
+   */
+  markerUnits?: 'strokeWidth' | 'userSpaceOnUse'
+  viewBox?: string
+  /**
+   * @default Math.random().toString(16).replace(/^0\./, '')
+   */
+  id?: string
+}
+
+/**
+ * A `<marker>` resource, drawn at the vertices of paths, polylines and line segments.
+ * Content is added with the same builder API as `Svg` and `Group`.
+ *
+ * @example
+ *   const arrowhead = svg.defineMarker(
+ *     { refX: 2, refY: 1, markerWidth: 2, markerHeight: 2 },
+ *     (m) => {
+ *       m.polygon({ points: [vec2(0, 0), vec2(2, 1), vec2(0, 2)] })
+ *     },
+ *   )
+ *   svg.path((p) => {
+ *     p.moveTo(vec2(0, 0))
+ *     p.lineTo(vec2(10, 10))
+ *     p.markerEnd = arrowhead
+ *   })
+ */
+export class Marker extends ShapeContainer {
+  constructor({
+    refX = 0,
+    refY = 0,
+    orient = 'auto',
+    id = randomId(),
+    ...attributes
+  }: MarkerAttributes = {}) {
+    super('marker', {
+      id,
+      refX,
+      refY,
+      orient: typeof orient === 'number' ? (orient * 180) / Math.PI : orient,
+      ...attributes,
+    })
+  }
+
+  get id(): string {
+    return this.attributes.id
+  }
+}
+
+/**
+ * @param attributes
+ * @param builder Callback that receives the marker for building content
+ * @returns The built Marker
+ */
+export function marker(
+  attributes: MarkerAttributes,
+  builder: (marker: Marker) => void,
+): Marker {
+  const m = new Marker(attributes)
+  builder(m)
+  return m
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Mask, mask } from './mask'
+import { Svg } from './svg'
+import { vec2 } from '../vector2'
+
+describe('mask', () => {
+  it('builds content with the shape builder API, inheriting visual attributes', () => {
+    const m = mask(
+      (m) => {
+        m.fill = '#fff'
+        m.circle({ center: vec2(5, 5), radius: 2 })
+      },
+      { id: 'm', maskUnits: 'userSpaceOnUse' },
+    )
+    assert(m instanceof Mask)
+    assert.strictEqual(
+      m.render(),
+      '<mask id="m" maskUnits="userSpaceOnUse" fill="#fff"><circle cx="5" cy="5" r="2" fill="#fff"></circle></mask>',
+    )
+  })
+})
+
+describe('Svg#defineMask', () => {
+  it('renders the mask in defs and references it from the mask setter', () => {
+    const svg = new Svg({})
+    const m = svg.defineMask((m) => {
+      m.rect({ x: 0, y: 0, width: 10, height: 5, fill: '#fff' })
+    })
+    svg.group((g) => {
+      g.mask = m
+      g.circle({ x: 5, y: 5, radius: 5 })
+    })
+    const actual = svg.render()
+    assert.ok(actual.includes(`<defs ><mask id="${m.id}">`))
+    assert.ok(actual.includes(`mask="url(#${m.id})"`))
+  })
+})
@@ -0,0 +1,57 @@
+import { randomId } from '../internal.js'
+import { ShapeContainer } from './group.js'
+import { CommonAttributes } from './tag.js'
+
+export type MaskAttributes = CommonAttributes & {
+  /**
+   * @default Math.random().toString(16).replace(/^0\./, '')
+   */
+  id?: string
+  x?: number | string
+  y?: number | string
+  width?: number | string
+  height?: number | string
+  /**
+   * @default 'objectBoundingBox' (when omitted, the renderer default is used)
+   */
+  maskUnits?: 'userSpaceOnUse' | 'objectBoundingBox'
+  /**
+   * @default 'userSpaceOnUse' (when omitted, the renderer default is used)
+   */
+  maskContentUnits?: 'userSpaceOnUse' | 'objectBoundingBox'
+}
+
+/**
+ * A `<mask>` resource. Content is added with the same builder API as `Svg` and `Group`.
+ * White areas of the mask content are fully visible, black areas are fully hidden.
+ *
+ * @example
+ *   const m = svg.defineMask((m) => {
+ *     m.fill = '#fff'
+ *     m.rect({ x: 0, y: 0, width: svg.width, height: svg.height / 2 })
+ *   })
+ *   svg.circle({ center: svg.center, radius: 30, mask: m })
+ */
+export class Mask extends ShapeContainer {
+  constructor({ id = randomId(), ...attributes }: MaskAttributes = {}) {
+    super('mask', { id, ...attributes })
+  }
+
+  get id(): string {
+    return this.attributes.id
+  }
+}
+
+/**
+ * @param builder Callback that receives the mask for building content
+ * @param attributes
+ * @returns The built Mask
+ */
+export function mask(
+  builder: (mask: Mask) => void,
+  attributes: MaskAttributes = {},
+): Mask {
+  const m = new Mask(attributes)
+  builder(m)
+  return m
+}
@@ -1,7 +1,12 @@
 import { describe, it } from 'node:test'
-import { path } from './path'
+import { Path, path } from './path'
 import assert from 'node:assert'
-import { vec2 } from '../vector2'
+import { Vector2, vec2 } from '../vector2'
+import { Matrix2D } from '../matrix2d'
+import { Rectangle } from './rectangle'
+import { CubicBezierCurve, QuadraticBezierCurve } from '../curves'
+
+type CubicOrQuadratic = CubicBezierCurve & QuadraticBezierCurve
 
 describe('Path', () => {
   it('moveTo should add the correct path instruction', () => {
@@ -83,3 +88,349 @@ describe('Path', () => {
     assert.strictEqual(p.render(), '<path d="M 5 5 T 10 10 15 15"></path>')
   })
 })
+
+describe('Path#transformed', () => {
+  it('applies the matrix to absolute and relative coordinates', () => {
+    const p = path((p) => {
+      p.moveTo(vec2(1, 1))
+      p.lineTo(vec2(2, 0), 'relative')
+      p.cubicBezier(vec2(3, 3), vec2(4, 4), vec2(5, 5))
+      p.close()
+    })
+    const m = Matrix2D.translation(vec2(10, 10)).scale(2)
+    assert.strictEqual(
+      p.transformed(m).render(),
+      '<path d="M 12 12 l 4 0 C 16 16 18 18 20 20 Z"></path>',
+    )
+  })
+
+  it('treats an initial relative moveTo as absolute', () => {
+    const p = path((p) => {
+      p.moveTo(vec2(1, 1), 'relative')
+      p.lineTo(vec2(1, 0), 'relative')
+    })
+    assert.strictEqual(
+      p.transformed(Matrix2D.translation(vec2(5, 5))).render(),
+      '<path d="m 6 6 l 1 0"></path>',
+    )
+  })
+
+  it('transforms arc radii and flips the sweep flag when mirrored', () => {
+    const p = path((p) => {
+      p.moveTo(vec2(0, 0))
+      p.arc({ rx: 5, ry: 2, sweepFlag: true, end: vec2(10, 0) })
+    })
+    assert.strictEqual(
+      p.transformed(Matrix2D.scaling(-1, 3)).render(),
+      '<path d="M 0 0 A 6 5 90 0 0 -10 0"></path>',
+    )
+  })
+
+  it('copies attributes but not transforms', () => {
+    const p = path((p) => {
+      p.moveTo(vec2(0, 0))
+      p.lineTo(vec2(1, 1))
+    })
+    p.stroke = '#000'
+    p.translate(vec2(5, 5))
+    assert.strictEqual(
+      p.transformed(Matrix2D.identity()).render(),
+      '<path stroke="#000" d="M 0 0 L 1 1"></path>',
+    )
+  })
+})
+
+describe('Path.parse', () => {
+  it('parses absolute commands', () => {
+    const p = Path.parse(
+      'M 10 10 L 20 20 H 30 V 40 C 1 2 3 4 5 6 S 7 8 9 10 Q 1 1 2 2 T 3 3 A 5 5 30 1 0 50 50 Z',
+    )
+    assert.strictEqual(
+      p.render(),
+      '<path d="M 10 10 L 20 20 H 30 V 40 C 1 2 3 4 5 6 S 7 8 9 10 Q 1 1 2 2 T 3 3 A 5 5 30 1 0 50 50 Z"></path>',
+    )
+  })
+
+  it('parses relative commands', () => {
+    const p = Path.parse('m 1 2 l 3 4 h 5 v 6 c 1 1 2 2 3 3 a 1 2 0 0 1 4 4 z')
+    assert.strictEqual(
+      p.render(),
+      '<path d="m 1 2 l 3 4 h 5 v 6 c 1 1 2 2 3 3 a 1 2 0 0 1 4 4 z"></path>',
+    )
+  })
+
+  it('parses implicit repeated commands', () => {
+    const p = Path.parse('M 0 0 1 1 2 2 L 3 3 4 4 h 1 2 m 5 5 6 6')
+    assert.strictEqual(
+      p.render(),
+      '<path d="M 0 0 L 1 1 L 2 2 L 3 3 L 4 4 h 1 h 2 m 5 5 l 6 6"></path>',
+    )
+  })
+
+  it('parses compact number syntax', () => {
+    const p = Path.parse('M.5-1.5.5.5L1e1,2E-1a1 1 0 011 1')
+    assert.strictEqual(
+      p.render(),
+      '<path d="M 0.5 -1.5 L 0.5 0.5 L 10 0.2 a 1 1 0 0 1 1 1"></path>',
+    )
+  })
+
+  it('accepts attributes', () => {
+    const p = Path.parse('M0 0L1 1', { stroke: '#000' })
+    assert.strictEqual(
+      p.render(),
+      '<path stroke="#000" d="M 0 0 L 1 1"></path>',
+    )
+  })
+
+  it('tracks the cursor in absolute coordinates', () => {
+    assert.deepStrictEqual(Path.parse('M 1 1 l 2 3').cursor, vec2(3, 4))
+    assert.deepStrictEqual(Path.parse('M 1 1 H 5 v 2').cursor, vec2(5, 3))
+    assert.deepStrictEqual(
+      Path.parse('M 1 1 A 1 1 0 0 0 3 3').cursor,
+      vec2(3, 3),
+    )
+  })
+
+  it('moves the cursor to the start of the current subpath on close', () => {
+    const p = Path.parse('M 0 0 L 5 5 Z m 10 10 l 1 0 l 0 1 z')
+    assert.deepStrictEqual(p.cursor, vec2(10, 10))
+  })
+
+  it('throws on invalid path data', () => {
+    assert.throws(
+      () => Path.parse('M 0 0 X 1 1'),
+      /expected a command at position 6/,
+    )
+    assert.throws(() => Path.parse('M 0 0 L 1'), /expected a number/)
+  })
+})
+
+describe('Path#horizontalLineTo and Path#verticalLineTo', () => {
+  it('add H and V instructions and move the cursor', () => {
+    const p = path((p) => {
+      p.moveTo(vec2(1, 1))
+      p.horizontalLineTo(5)
+      p.verticalLineTo(2, 'relative')
+    })
+    assert.strictEqual(p.render(), '<path d="M 1 1 H 5 v 2"></path>')
+    assert.deepStrictEqual(p.cursor, vec2(5, 3))
+  })
+
+  it('become lines when transformed', () => {
+    const p = Path.parse('M 1 1 H 5 v 2')
+    assert.strictEqual(
+      p.transformed(Matrix2D.scaling(2, -1)).render(),
+      '<path d="M 2 -1 L 10 -1 l 0 -2"></path>',
+    )
+  })
+})
+
+describe('Path geometry', () => {
+  const square = Path.parse('M 0 0 H 10 V 10 H 0 Z')
+
+  it('measures the length of all segments', () => {
+    assert.strictEqual(square.length(), 40)
+    assert.strictEqual(Path.parse('M 0 0 L 3 4 M 10 10 l 0 5').length(), 10)
+  })
+
+  it('finds points along the path', () => {
+    assert.deepStrictEqual(square.pointAtLength(15), vec2(10, 5))
+    assert.deepStrictEqual(square.pointAt(0.875), vec2(0, 5))
+    assert.deepStrictEqual(square.pointAt(1), vec2(0, 0))
+    assert.deepStrictEqual(square.pointAtLength(-5), vec2(0, 0))
+  })
+
+  it('finds tangents and normals', () => {
+    assert.deepStrictEqual(square.tangentAt(0.3), vec2(0, 1))
+    assert.deepStrictEqual(square.normalAt(0.3), vec2(-1, 0))
+    assert.deepStrictEqual(square.tangentAtLength(15), vec2(0, 1))
+    assert.deepStrictEqual(square.normalAtLength(15), vec2(-1, 0))
+  })
+
+  it('samples a count of evenly spaced points', () => {
+    assert.deepStrictEqual(square.sample(5), [
+      vec2(0, 0),
+      vec2(10, 0),
+      vec2(10, 10),
+      vec2(0, 10),
+      vec2(0, 0),
+    ])
+  })
+
+  it('samples points at a fixed spacing', () => {
+    const points = Path.parse('M 0 0 L 10 0').sample({ spacing: 3 })
+    assert.deepStrictEqual(points, [
+      vec2(0, 0),
+      vec2(3, 0),
+      vec2(6, 0),
+      vec2(9, 0),
+    ])
+    assert.throws(() => square.sample({ spacing: 0 }))
+  })
+
+  it('evaluates arcs exactly', () => {
+    const semicircle = Path.parse('M 10 0 A 10 10 0 0 1 -10 0')
+    assert(Math.abs(semicircle.length() - Math.PI * 10) < 1e-9)
+    for (const point of semicircle.sample(7)) {
+      assert(Math.abs(point.length() - 10) < 1e-9)
+    }
+    const top = semicircle.pointAt(0.5)
+    assert(top.distanceTo(vec2(0, 10)) < 1e-9)
+  })
+
+  it('reflects control points for smooth curves', () => {
+    const p = Path.parse('M 0 0 C 0 1 1 1 1 0 S 2 -1 2 0 Q 3 1 4 0 T 6 0')
+    const [, s, , t] = p.segments() as CubicOrQuadratic[]
+    assert.deepStrictEqual(s.controlPoint1, vec2(1, -1))
+    assert.deepStrictEqual(t.controlPoint, vec2(5, -1))
+  })
+
+  it('treats relative coordinates as relative to the start of each segment', () => {
+    const p = Path.parse('M 5 5 c 0 1 1 1 1 0 q 1 1 2 0')
+    const [c, q] = p.segments() as CubicOrQuadratic[]
+    assert.deepStrictEqual(c.controlPoint1, vec2(5, 6))
+    assert.deepStrictEqual(c.end, vec2(6, 5))
+    assert.deepStrictEqual(q.controlPoint, vec2(7, 6))
+    assert.deepStrictEqual(q.end, vec2(8, 5))
+  })
+
+  it('continues after a relative smooth quadratic with two coordinate pairs', () => {
+    const p = new Path()
+    p.moveTo(vec2(0, 0))
+    p.quadraticBezier(vec2(1, 1), vec2(2, 0))
+    p.smoothQuadraticBezier(vec2(2, 0), vec2(2, 0), 'relative')
+    p.lineTo(vec2(1, 0), 'relative')
+    const segments = p.segments()
+    assert.strictEqual(segments.length, 4)
+    for (const [i, segment] of segments.slice(1).entries()) {
+      assert.deepStrictEqual(segment.start, segments[i].end)
+    }
+    assert.deepStrictEqual(segments[3].end, vec2(7, 0))
+  })
+
+  it('throws when measuring an empty path', () => {
+    assert.throws(() => new Path().pointAt(0.5), /without any segments/)
+  })
+})
+
+describe('Path#flatten', () => {
+  it('returns one list of points per subpath', () => {
+    const p = Path.parse('M 0 0 L 10 0 L 10 10 Z M 20 20 l 5 0')
+    assert.deepStrictEqual(p.flatten(), [
+      [vec2(0, 0), vec2(10, 0), vec2(10, 10), vec2(0, 0)],
+      [vec2(20, 20), vec2(25, 20)],
+    ])
+  })
+
+  it('keeps curves within the tolerance', () => {
+    const p = Path.parse('M 10 0 A 10 10 0 1 1 -10 0')
+    for (const tolerance of [1, 0.1, 0.01]) {
+      const [points] = p.flatten(tolerance)
+      assert.deepStrictEqual(points[0], vec2(10, 0))
+      assert.deepStrictEqual(points[points.length - 1], vec2(-10, 0))
+      for (let i = 1; i < points.length; i++) {
+        // the midpoint of each chord is its furthest point from the circle
+        const mid = Vector2.midpoint(points[i - 1], points[i])
+        assert(10 - mid.length() <= tolerance)
+      }
+    }
+  })
+
+  it('uses fewer points for larger tolerances', () => {
+    const p = Path.parse('M 0 0 C 0 10 10 10 10 0')
+    const [coarse] = p.flatten(1)
+    const [fine] = p.flatten(0.01)
+    assert(coarse.length < fine.length)
+  })
+
+  it('throws for tolerances <= 0', () => {
+    assert.throws(() => Path.parse('M 0 0 Q 1 1 2 0').flatten(0), /Tolerance/)
+  })
+})
+
+describe('Path#flattened', () => {
+  it('returns a path of straight lines with the same attributes', () => {
+    const p = Path.parse('M 0 0 Q 5 5 10 0 Z', { stroke: '#000' })
+    const flat = p.flattened(0.5)
+    const rendered = flat.render()
+    assert.match(
+      rendered,
+      /^<path stroke="#000" d="M 0 0 (L [\d.]+ [\d.]+ )+Z"><\/path>$/,
+    )
+    assert(!rendered.includes('Q'))
+  })
+})
+
+describe('Path#boundingBox', () => {
+  it('includes the extrema of curves', () => {
+    const box = Path.parse('M 0 0 C 0 10 10 10 10 0 L 12 -2').boundingBox
+    assert.strictEqual(box.x, 0)
+    assert.strictEqual(box.y, -2)
+    assert.strictEqual(box.width, 12)
+    assert(Math.abs(box.height - 9.5) < 1e-9)
+  })
+
+  it('returns an empty rectangle for a path without segments', () => {
+    const box = Path.parse('M 5 5').boundingBox
+    assert.deepStrictEqual([box.x, box.y, box.width, box.height], [0, 0, 0, 0])
+  })
+})
+
+describe('Path.fromPointsSmooth', () => {
+  it('draws cubic curves through the points', () => {
+    const p = Path.fromPointsSmooth([vec2(0, 0), vec2(6, 6), vec2(12, 0)], {
+      type: 'catmullRom',
+    })
+    assert.strictEqual(
+      p.render(),
+      '<path d="M 0 0 C 2 2 4 6 6 6 C 8 6 10 2 12 0"></path>',
+    )
+  })
+
+  it('closes the path', () => {
+    const p = Path.fromPointsSmooth([vec2(0, 0), vec2(6, 6), vec2(12, 0)], {
+      closed: true,
+    })
+    const d = p.render()
+    assert.strictEqual(d.match(/C/g)?.length, 3)
+    assert(d.includes('Z'))
+  })
+
+  it('throws for an empty list of points', () => {
+    assert.throws(() => Path.fromPointsSmooth([]), /empty list of points/)
+  })
+})
+
+describe('Path#simplify', () => {
+  it('removes near-collinear points and preserves the end points', () => {
+    const p = Path.parse('M 0 0 L 1 0.01 L 2 0 L 2 2 M 5 5 L 6 5 L 7 5 Z', {
+      stroke: '#000',
+    })
+    assert.strictEqual(
+      p.simplify(0.1).render(),
+      '<path stroke="#000" d="M 0 0 L 2 0 L 2 2 M 5 5 L 6 5 L 7 5 Z"></path>',
+    )
+  })
+
+  it('flattens curves', () => {
+    const simplified = Path.parse('M 0 0 Q 5 10 10 0').simplify(0.5)
+    assert(!simplified.render().includes('Q'))
+    assert(simplified.pointAt(1).distanceTo(vec2(10, 0)) < 1e-9)
+  })
+})
+
+describe('Path#clip', () => {
+  it('returns the flattened pieces inside the region as polylines', () => {
+    const p = Path.parse('M -5 5 L 5 5 L 5 15 M 2 2 Q 4 4 6 2', {
+      stroke: '#000',
+    })
+    const pieces = p.clip(new Rectangle({ x: 0, y: 0, width: 10, height: 10 }))
+    assert.strictEqual(pieces.length, 2)
+    assert.strictEqual(
+      pieces[0].render(),
+      '<polyline stroke="#000" points="0,5 5,5 5,10"></polyline>',
+    )
+    assert.deepStrictEqual(pieces[1].points.at(-1), vec2(6, 2))
+  })
+})
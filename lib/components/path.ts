@@ -18,8 +18,30 @@
 //   relative negative x values move to the left, and relative negative y values move upwards.
 
 import { CommonAttributes, Tag } from './tag.js'
+import type { Marker } from './marker.js'
 import { vec2, Vector2 } from '../vector2.js'
 import { toFixedPrecision } from '../math.js'
+import { omit } from '../internal.js'
+import type { Matrix2D } from '../matrix2d.js'
+import type { ClosedInterval } from '../types.js'
+import { Rectangle } from './rectangle.js'
+import { Polyline } from './polyline.js'
+import type { Circle } from './circle.js'
+import type { Polygon } from './polygon.js'
+import {
+  ClipOptions,
+  clipPolyline,
+  clipRegion,
+} from '../algorithms/line-clipping.js'
+import { SplineOptions, splineCurves } from '../algorithms/splines.js'
+import { SimplifyAlgorithm, simplify } from '../algorithms/simplify.js'
+import {
+  ArcCurve,
+  CubicBezierCurve,
+  Curve,
+  LineCurve,
+  QuadraticBezierCurve,
+} from '../curves.js'
 
 export type CoordinateType = 'absolute' | 'relative'
 export type PathAttributes = CommonAttributes & Record<string, unknown>
@@ -41,27 +63,49 @@ export type ArcProps = {
   end: Vector2
 }
 
+type PathMeasure = {
+  curves: Curve[]
+  starts: number[]
+  ends: number[]
+  total: number
+}
+
 export class Path extends Tag {
   #d: PathInstruction[] = []
+  /**
+   * The current point, in absolute coordinates
+   */
   cursor: Vector2
+  #subpathStart: Vector2 = vec2(0, 0)
 
   constructor(attributes: PathAttributes = {}) {
     super('path', attributes)
     this.cursor = vec2(0, 0)
   }
 
+  set markerStart(value: Marker | string | null) {
+    this.setAttributes({ 'marker-start': value === null ? 'none' : value })
+  }
+
+  set markerMid(value: Marker | string | null) {
+    this.setAttributes({ 'marker-mid': value === null ? 'none' : value })
+  }
+
+  set markerEnd(value: Marker | string | null) {
+    this.setAttributes({ 'marker-end': value === null ? 'none' : value })
+  }
+
   /**
    *
    * @param {Vector2} endPoint
    * @param {CoordinateType} coordinateType
    */
   moveTo(endPoint: Vector2, coordinateType: CoordinateType = 'absolute'): void {
-    this.#d.push(
+    this.#push(
       new PathInstruction(coordinateType === 'absolute' ? 'M' : 'm', [
         endPoint,
       ]),
     )
-    this.cursor = endPoint
   }
 
   /**
@@ -70,12 +114,38 @@ export class Path extends Tag {
    * @param {CoordinateType} coordinateType
    */
   lineTo(endPoint: Vector2, coordinateType: CoordinateType = 'absolute'): void {
-    this.#d.push(
+    this.#push(
       new PathInstruction(coordinateType === 'absolute' ? 'L' : 'l', [
         endPoint,
       ]),
     )
-    this.cursor = endPoint
+  }
+
+  /**
+   * H
+   * Draw a horizontal line from the current point to `x`
+   * @param {number} x
+   * @param {CoordinateType} coordinateType
+   */
+  horizontalLineTo(
+    x: number,
+    coordinateType: CoordinateType = 'absolute',
+  ): void {
+    this.#push(
+      new PathInstruction(coordinateType === 'absolute' ? 'H' : 'h', [x]),
+    )
+  }
+
+  /**
+   * V
+   * Draw a vertical line from the current point to `y`
+   * @param {number} y
+   * @param {CoordinateType} coordinateType
+   */
+  verticalLineTo(y: number, coordinateType: CoordinateType = 'absolute'): void {
+    this.#push(
+      new PathInstruction(coordinateType === 'absolute' ? 'V' : 'v', [y]),
+    )
   }
 
   /**
@@ -94,14 +164,13 @@ export class Path extends Tag {
     endPoint: Vector2,
     coordinateType: CoordinateType = 'absolute',
   ): void {
-    this.#d.push(
+    this.#push(
       new PathInstruction(coordinateType === 'absolute' ? 'C' : 'c', [
         controlPoint1,
         controlPoint2,
         endPoint,
       ]),
     )
-    this.cursor = endPoint
   }
 
   /**
@@ -118,13 +187,12 @@ export class Path extends Tag {
     endPoint: Vector2,
     coordinateType: CoordinateType = 'absolute',
   ): void {
-    this.#d.push(
+    this.#push(
       new PathInstruction(coordinateType === 'absolute' ? 'S' : 's', [
         controlPoint,
         endPoint,
       ]),
     )
-    this.cursor = endPoint
   }
 
   /**
@@ -138,13 +206,12 @@ export class Path extends Tag {
     endPoint: Vector2,
     coordinateType: CoordinateType = 'absolute',
   ): void {
-    this.#d.push(
+    this.#push(
       new PathInstruction(coordinateType === 'absolute' ? 'Q' : 'q', [
         controlPoint,
         endPoint,
       ]),
     )
-    this.cursor = endPoint
   }
 
   /**
@@ -158,13 +225,12 @@ export class Path extends Tag {
     endPoint: Vector2,
     coordinateType: CoordinateType = 'absolute',
   ): void {
-    this.#d.push(
+    this.#push(
       new PathInstruction(coordinateType === 'absolute' ? 'T' : 't', [
         controlPoint,
         endPoint,
       ]),
     )
-    this.cursor = endPoint
   }
 
   arc(
@@ -178,7 +244,7 @@ export class Path extends Tag {
     }: ArcProps,
     coordinateType: CoordinateType = 'absolute',
   ): void {
-    this.#d.push(
+    this.#push(
       new PathInstruction(coordinateType === 'absolute' ? 'A' : 'a', [
         vec2(rx, ry),
         xAxisRotation,
@@ -190,8 +256,449 @@ export class Path extends Tag {
   }
 
   close(): void {
-    this.#d.push(new PathInstruction('Z', []))
-    this.cursor = this.#d[0].endPoint
+    this.#push(new PathInstruction('Z', []))
+  }
+
+  /**
+   * Appends the instruction and moves the cursor to its end point.
+   * @param {PathInstruction} instruction
+   */
+  #push(instruction: PathInstruction): void {
+    this.#d.push(instruction)
+    this.cursor = instruction.endPoint(this.cursor, this.#subpathStart)
+    if (instruction.commandType === 'M' || instruction.commandType === 'm') {
+      this.#subpathStart = this.cursor
+    }
+  }
+
+  /**
+   * Pairs each instruction with the (absolute) points at which it starts and ends.
+   * @returns {[PathInstruction, Vector2, Vector2][]}
+   */
+  #instructionsWithEndPoints(): [PathInstruction, Vector2, Vector2][] {
+    let cursor = vec2(0, 0)
+    let subpathStart = cursor
+    return this.#d.map((instruction) => {
+      const start = cursor
+      cursor = instruction.endPoint(cursor, subpathStart)
+      if (instruction.commandType === 'M' || instruction.commandType === 'm') {
+        subpathStart = cursor
+      }
+      return [instruction, start, cursor]
+    })
+  }
+
+  /**
+   * The geometry of the path, as curves in absolute coordinates.
+   * Movetos do not produce a curve, and the implicit control points of smooth curves (S, T) are resolved.
+   * @returns {Curve[]}
+   */
+  segments(): Curve[] {
+    return this.#subpaths().flatMap(({ curves }) => curves)
+  }
+
+  /**
+   * Approximates every curve of the path with straight lines.
+   * @example
+   *   for (const points of p.flatten(0.05)) {
+   *     gcode.push(...points.map(toG1))
+   *   }
+   * @param {number} [tolerance=0.1] the maximum distance between a curve and its approximating line segments
+   * @returns {Vector2[][]} the points of each subpath. Closed subpaths end with their start point.
+   */
+  flatten(tolerance = 0.1): Vector2[][] {
+    return this.#subpaths().map(({ start, curves }) => [
+      start,
+      ...curves.flatMap((curve) => curve.flatten(tolerance).slice(1)),
+    ])
+  }
+
+  /**
+   * Returns a new Path which approximates every curve of this path with straight lines (see `flatten`).
+   * Closed subpaths remain closed.
+   * @param {number} [tolerance=0.1]
+   * @returns {Path}
+   */
+  flattened(tolerance = 0.1): Path {
+    return this.#fromFlattenedSubpaths(tolerance, (points) => points)
+  }
+
+  /**
+   * Returns a new Path of straight lines without the points which do not contribute much to its shape.
+   * Curves are flattened first (see `flatten`). The start and end of open subpaths are always preserved,
+   * and closed subpaths remain closed.
+   * @param {number} tolerance
+   * @param {{ algorithm?: SimplifyAlgorithm }} [options]
+   * @returns {Path}
+   */
+  simplify(
+    tolerance: number,
+    { algorithm }: { algorithm?: SimplifyAlgorithm } = {},
+  ): Path {
+    return this.#fromFlattenedSubpaths(tolerance, (points, closed) =>
+      simplify(points, tolerance, { algorithm, preserveClosed: closed }),
+    )
+  }
+
+  /**
+   * Cuts the path against the region, e.g. to keep the lines of a drawing on the page.
+   * Curves are flattened first (see `flatten`).
+   * @param {Rectangle | Circle | Polygon} region
+   * @param {ClipOptions & { tolerance?: number }} [options] `tolerance` is passed to `flatten`
+   * @returns {Polyline[]} the pieces which were kept, with this path's attributes
+   */
+  clip(
+    region: Rectangle | Circle | Polygon,
+    { tolerance = 0.1, ...options }: ClipOptions & { tolerance?: number } = {},
+  ): Polyline[] {
+    const attributes = omit(this.attributes, ['d'])
+    const clip = clipRegion(region)
+    return this.flatten(tolerance).flatMap((points) =>
+      clipPolyline(points, clip, options).map(
+        (piece) => new Polyline({ ...attributes, points: piece }),
+      ),
+    )
+  }
+
+  /**
+   * Builds a path of straight lines from the flattened subpaths, keeping the attributes of this path.
+   * @param {number} tolerance
+   * @param {(points: Vector2[], closed: boolean) => Vector2[]} process receives the points of each subpath.
+   *   The points of closed subpaths do not repeat the start point.
+   * @returns {Path}
+   */
+  #fromFlattenedSubpaths(
+    tolerance: number,
+    process: (points: Vector2[], closed: boolean) => Vector2[],
+  ): Path {
+    const result = new Path(omit(this.attributes, ['d']))
+    for (const { start, curves, closed } of this.#subpaths()) {
+      const points = [
+        start,
+        ...curves.flatMap((curve) => curve.flatten(tolerance).slice(1)),
+      ]
+      // the closepath draws the final line back to the start
+      if (closed && points.length > 1 && points[points.length - 1].eq(start)) {
+        points.pop()
+      }
+      const [first, ...rest] = process(points, closed)
+      result.moveTo(first)
+      for (const point of rest) {
+        result.lineTo(point)
+      }
+      if (closed) {
+        result.close()
+      }
+    }
+    return result
+  }
+
+  /**
+   * Groups the curves of the path by subpath.
+   * A subpath starts at a moveto, or after a closepath; subpaths without any curves are omitted.
+   * @returns {{ start: Vector2, curves: Curve[], closed: boolean }[]}
+   */
+  #subpaths(): { start: Vector2; curves: Curve[]; closed: boolean }[] {
+    const subpaths: { start: Vector2; curves: Curve[]; closed: boolean }[] = []
+    let current:
+      | { start: Vector2; curves: Curve[]; closed: boolean }
+      | undefined
+    // the last control points of the previous curve, which smooth curves reflect
+    let cubicControl: Vector2 | undefined
+    let quadraticControl: Vector2 | undefined
+    for (const [instruction, start, end] of this.#instructionsWithEndPoints()) {
+      const points = instruction.points
+      const absolute = (point: Vector2, from = start) =>
+        instruction.relative ? from.add(point) : point
+      const reflect = (control: Vector2 | undefined, from: Vector2) =>
+        control ? from.multiply(2).subtract(control) : from
+      let nextCubicControl: Vector2 | undefined
+      let nextQuadraticControl: Vector2 | undefined
+      if (
+        current === undefined ||
+        current.closed ||
+        /[Mm]/.test(instruction.commandType)
+      ) {
+        current = {
+          start: /[Mm]/.test(instruction.commandType) ? end : start,
+          curves: [],
+          closed: false,
+        }
+        subpaths.push(current)
+      }
+      const curves = current.curves
+      switch (instruction.commandType.toUpperCase()) {
+        case 'M':
+          break
+        case 'Z':
+          if (!start.eq(end)) {
+            curves.push(new LineCurve(start, end))
+          }
+          current.closed = true
+          break
+        case 'C':
+          nextCubicControl = absolute(points[1] as Vector2)
+          curves.push(
+            new CubicBezierCurve(
+              start,
+              absolute(points[0] as Vector2),
+              nextCubicControl,
+              end,
+            ),
+          )
+          break
+        case 'S':
+          nextCubicControl = absolute(points[0] as Vector2)
+          curves.push(
+            new CubicBezierCurve(
+              start,
+              reflect(cubicControl, start),
+              nextCubicControl,
+              end,
+            ),
+          )
+          break
+        case 'Q':
+          nextQuadraticControl = absolute(points[0] as Vector2)
+          curves.push(
+            new QuadraticBezierCurve(start, nextQuadraticControl, end),
+          )
+          break
+        case 'T': {
+          // `smoothQuadraticBezier` writes two coordinate pairs, which SVG reads as two T commands
+          let from = start
+          nextQuadraticControl = quadraticControl
+          for (const point of points as Vector2[]) {
+            nextQuadraticControl = reflect(nextQuadraticControl, from)
+            const to = absolute(point, from)
+            curves.push(
+              new QuadraticBezierCurve(from, nextQuadraticControl, to),
+            )
+            from = to
+          }
+          break
+        }
+        case 'A': {
+          const [radii, xAxisRotation, largeArcFlag, sweepFlag] = points as [
+            Vector2,
+            number,
+            number,
+            number,
+          ]
+          if (start.eq(end)) {
+            break
+          }
+          // arcs with a zero radius are drawn as straight lines
+          curves.push(
+            radii.x === 0 || radii.y === 0
+              ? new LineCurve(start, end)
+              : new ArcCurve(
+                  start,
+                  radii.x,
+                  radii.y,
+                  (xAxisRotation * Math.PI) / 180,
+                  largeArcFlag !== 0,
+                  sweepFlag !== 0,
+                  end,
+                ),
+          )
+          break
+        }
+        default:
+          curves.push(new LineCurve(start, end))
+      }
+      cubicControl = nextCubicControl
+      quadraticControl = nextQuadraticControl
+    }
+    return subpaths.filter(({ curves }) => curves.length > 0)
+  }
+
+  /**
+   * The exact bounding box of the path, including the extrema of curves.
+   * Returns an empty rectangle when the path does not draw anything.
+   * @returns {Rectangle}
+   */
+  get boundingBox(): Rectangle {
+    return Rectangle.fromPoints(
+      this.segments().flatMap((curve) => curve.boundingBox.vertices()),
+    )
+  }
+
+  /**
+   * The total length of the path. Movetos do not contribute to the length.
+   * @returns {number}
+   */
+  length(): number {
+    return this.#measure().total
+  }
+
+  /**
+   * The point at the given fraction of the path's length
+   * @param {ClosedInterval<0, 1>} t
+   * @returns {Vector2}
+   */
+  pointAt(t: ClosedInterval<0, 1>): Vector2 {
+    const measure = this.#measure()
+    return this.#locate(measure, t * measure.total).point
+  }
+
+  /**
+   * The point at the given distance along the path
+   * @param {number} distance
+   * @returns {Vector2}
+   */
+  pointAtLength(distance: number): Vector2 {
+    return this.#locate(this.#measure(), distance).point
+  }
+
+  /**
+   * The unit tangent at the given fraction of the path's length, in the direction of travel
+   * @param {ClosedInterval<0, 1>} t
+   * @returns {Vector2}
+   */
+  tangentAt(t: ClosedInterval<0, 1>): Vector2 {
+    const measure = this.#measure()
+    return this.#locate(measure, t * measure.total).tangent
+  }
+
+  /**
+   * The unit normal at the given fraction of the path's length.
+   * This is the tangent rotated by 90°, which points to the right of the direction of travel on screen (y-down).
+   * @param {ClosedInterval<0, 1>} t
+   * @returns {Vector2}
+   */
+  normalAt(t: ClosedInterval<0, 1>): Vector2 {
+    const tangent = this.tangentAt(t)
+    return vec2(-tangent.y, tangent.x)
+  }
+
+  /**
+   * The unit tangent at the given distance along the path, in the direction of travel
+   * @param {number} distance
+   * @returns {Vector2}
+   */
+  tangentAtLength(distance: number): Vector2 {
+    return this.#locate(this.#measure(), distance).tangent
+  }
+
+  /**
+   * The unit normal at the given distance along the path (see `normalAt`).
+   * @param {number} distance
+   * @returns {Vector2}
+   */
+  normalAtLength(distance: number): Vector2 {
+    const tangent = this.tangentAtLength(distance)
+    return vec2(-tangent.y, tangent.x)
+  }
+
+  /**
+   * Returns points that are evenly spaced along the length of the path, including both ends.
+   * @example
+   *   // 10 points, from the start to the end of the path
+   *   p.sample(10)
+   * @example
+   *   // a point every 5 units, starting at the start of the path
+   *   p.sample({ spacing: 5 })
+   * @param {number | { spacing: number }} countOrOptions
+   * @returns {Vector2[]}
+   */
+  sample(count: number): Vector2[]
+  sample(options: { spacing: number }): Vector2[]
+  sample(countOrOptions: number | { spacing: number }): Vector2[] {
+    const measure = this.#measure()
+    const distances: number[] = []
+    if (typeof countOrOptions === 'number') {
+      for (let i = 0; i < countOrOptions; i++) {
+        distances.push(
+          countOrOptions === 1 ? 0 : (i / (countOrOptions - 1)) * measure.total,
+        )
+      }
+    } else {
+      if (!(countOrOptions.spacing > 0)) {
+        throw new Error(
+          `Sample spacing must be greater than 0, received ${countOrOptions.spacing}`,
+        )
+      }
+      // the epsilon avoids dropping the last point due to floating point error
+      const count = Math.floor(measure.total / countOrOptions.spacing + 1e-9)
+      for (let i = 0; i <= count; i++) {
+        distances.push(i * countOrOptions.spacing)
+      }
+    }
+    return distances.map((d) => this.#locate(measure, d).point)
+  }
+
+  /**
+   * @returns {PathMeasure} the curves, and the cumulative length at the start and end of each curve
+   */
+  #measure(): PathMeasure {
+    const curves = this.segments()
+    const starts: number[] = []
+    const ends: number[] = []
+    let total = 0
+    for (const curve of curves) {
+      starts.push(total)
+      total += curve.length()
+      ends.push(total)
+    }
+    return { curves, starts, ends, total }
+  }
+
+  #locate(
+    { curves, starts, ends, total }: PathMeasure,
+    distance: number,
+  ): { point: Vector2; tangent: Vector2 } {
+    if (curves.length === 0) {
+      throw new Error('Cannot measure a Path without any segments')
+    }
+    const clamped = Math.min(Math.max(distance, 0), total)
+    // binary search for the first curve which ends at or after the distance
+    let low = 0
+    let high = curves.length - 1
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2)
+      if (ends[mid] < clamped) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+    const curve = curves[low]
+    const t = curve.tAtLength(clamped - starts[low])
+    return { point: curve.pointAt(t), tangent: curve.tangentAt(t) }
+  }
+
+  /**
+   * Parses the `d` attribute of an SVG path.
+   * Supports every path command, absolute and relative coordinates,
+   * implicit repeated commands (e.g. `L 1 1 2 2`, or coordinate pairs following a moveto),
+   * and compact number syntax (e.g. `M.5-1.5.5` or arc flags without separators).
+   * @example
+   *   const p = Path.parse('M10 10h20v20H10z', { fill: 'none' })
+   * @param {string} d
+   * @param {PathAttributes} [attributes]
+   * @returns {Path}
+   * @throws when `d` is not valid path data
+   */
+  static parse(d: string, attributes: PathAttributes = {}): Path {
+    const p = new Path(attributes)
+    const scanner = new PathDataScanner(d)
+    scanner.skipSeparators()
+    while (!scanner.done()) {
+      let command = scanner.command()
+      if (command === 'Z' || command === 'z') {
+        p.#push(new PathInstruction(command, []))
+        scanner.skipSeparators()
+        continue
+      }
+      do {
+        p.#push(new PathInstruction(command, scanner.arguments(command)))
+        // subsequent coordinate pairs after a moveto are implicit linetos
+        if (command === 'M') command = 'L'
+        if (command === 'm') command = 'l'
+      } while (scanner.atNumber())
+    }
+    return p
   }
 
   /**
@@ -215,6 +722,54 @@ export class Path extends Tag {
     })
   }
 
+  /**
+   * Creates a smooth path of cubic Bézier curves through the points.
+   * See `SplineType` for the available kinds of curves.
+   * @example
+   *   const flowLine = Path.fromPointsSmooth(points, { type: 'centripetal' })
+   *   const blob = Path.fromPointsSmooth(points, { type: 'bspline', closed: true })
+   * @param {Vector2[]} points
+   * @param {SplineOptions} [options]
+   * @returns {Path}
+   */
+  static fromPointsSmooth(
+    points: Vector2[],
+    options: SplineOptions = {},
+  ): Path {
+    if (points.length === 0) {
+      throw new Error('Cannot create a Path from an empty list of points')
+    }
+    const curves = splineCurves(points, options)
+    return path((p) => {
+      p.moveTo(curves[0]?.start ?? points[0])
+      for (const curve of curves) {
+        p.cubicBezier(curve.controlPoint1, curve.controlPoint2, curve.end)
+      }
+      if (options.closed) {
+        p.close()
+      }
+    })
+  }
+
+  /**
+   * Returns a new Path with the matrix applied to its coordinates.
+   * Horizontal and vertical lines become lines.
+   * Arcs remain arcs: their radii and x-axis rotation are recomputed, and the sweep flag flips when the matrix mirrors the path.
+   * Transforms applied to this path (via `transform` or the transform methods) are not copied.
+   * @param {Matrix2D} matrix
+   * @returns {Path}
+   */
+  transformed(matrix: Matrix2D): Path {
+    const result = new Path(omit(this.attributes, ['d', 'transform']))
+    for (const [
+      i,
+      [instruction, start],
+    ] of this.#instructionsWithEndPoints().entries()) {
+      result.#push(instruction.transformed(matrix, start, i === 0))
+    }
+    return result
+  }
+
   render(): string {
     this.setAttributes({
       d: this.#d.map((p) => p.render(this.numericPrecision)).join(' '),
@@ -251,6 +806,10 @@ export function path(
 type PathCommand =
   | 'l'
   | 'L'
+  | 'h'
+  | 'H'
+  | 'v'
+  | 'V'
   | 'm'
   | 'M'
   | 'c'
@@ -258,6 +817,7 @@ type PathCommand =
   | 's'
   | 'S'
   | 'Z'
+  | 'z'
   | 'A'
   | 'a'
   | 'Q'
@@ -266,16 +826,101 @@ type PathCommand =
   | 't'
 
 class PathInstruction {
-  endPoint: Vector2
   points: (Vector2 | number)[]
   commandType: PathCommand
   constructor(commandType: PathCommand, points: (Vector2 | number)[]) {
-    // This isn't super resilient, but this class should never be instantiated manually so it should be fine
-    this.endPoint = typeof points?.[0] === 'number' ? vec2(0, 0) : points[0]
     this.points = points
     this.commandType = commandType
   }
 
+  get relative(): boolean {
+    return this.commandType === this.commandType.toLowerCase()
+  }
+
+  /**
+   * The absolute point where this instruction ends
+   * @param {Vector2} start the current point before this instruction
+   * @param {Vector2} subpathStart the start of the current subpath, where a closepath returns to
+   * @returns {Vector2}
+   */
+  endPoint(start: Vector2, subpathStart: Vector2): Vector2 {
+    switch (this.commandType) {
+      case 'Z':
+      case 'z':
+        return subpathStart
+      case 'H':
+        return vec2(this.points[0] as number, start.y)
+      case 'h':
+        return vec2(start.x + (this.points[0] as number), start.y)
+      case 'V':
+        return vec2(start.x, this.points[0] as number)
+      case 'v':
+        return vec2(start.x, start.y + (this.points[0] as number))
+      case 't':
+        // each coordinate pair is a separate smooth quadratic, relative to the end of the previous one
+        return (this.points as Vector2[]).reduce(
+          (end, point) => end.add(point),
+          start,
+        )
+      default: {
+        const end = this.points[this.points.length - 1] as Vector2
+        return this.relative ? start.add(end) : end
+      }
+    }
+  }
+
+  /**
+   * @param {Matrix2D} matrix
+   * @param {Vector2} start the current point before this instruction
+   * @param {boolean} [initial=false] true for the first instruction of a path, where a relative moveto is treated as absolute
+   * @returns {PathInstruction}
+   */
+  transformed(
+    matrix: Matrix2D,
+    start: Vector2,
+    initial = false,
+  ): PathInstruction {
+    const relative = this.relative && !initial
+    const transformPoint = (pt: Vector2) =>
+      relative ? matrix.applyToVector(pt) : matrix.apply(pt)
+    switch (this.commandType) {
+      case 'H':
+      case 'V':
+        return new PathInstruction('L', [
+          transformPoint(this.endPoint(start, start)),
+        ])
+      case 'h':
+      case 'v':
+        return new PathInstruction('l', [
+          transformPoint(this.endPoint(start, start).subtract(start)),
+        ])
+      case 'A':
+      case 'a': {
+        const [radii, xAxisRotation, largeArcFlag, sweepFlag, end] = this
+          .points as [Vector2, number, number, number, Vector2]
+        const { rx, ry, rotation } = matrix.applyToEllipse(
+          radii.x,
+          radii.y,
+          (xAxisRotation * Math.PI) / 180,
+        )
+        return new PathInstruction(this.commandType, [
+          vec2(rx, ry),
+          (rotation * 180) / Math.PI,
+          largeArcFlag,
+          matrix.determinant() < 0 ? 1 - sweepFlag : sweepFlag,
+          transformPoint(end),
+        ])
+      }
+      default:
+        return new PathInstruction(
+          this.commandType,
+          this.points.map((pt) =>
+            pt instanceof Vector2 ? transformPoint(pt) : pt,
+          ),
+        )
+    }
+  }
+
   /**
    * @param {number} [precision=Infinity]
    * @returns {string}
@@ -294,3 +939,94 @@ class PathInstruction {
     ].join(' ')
   }
 }
+
+const SEPARATORS = /[\s,]*/y
+const COMMAND = /[MmZzLlHhVvCcSsQqTtAa]/y
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y
+const FLAG = /[01]/y
+
+/**
+ * Reads the commands and arguments of path data, one token at a time.
+ */
+class PathDataScanner {
+  #d: string
+  #index = 0
+
+  constructor(d: string) {
+    this.#d = d
+  }
+
+  done(): boolean {
+    return this.#index >= this.#d.length
+  }
+
+  skipSeparators(): void {
+    this.#match(SEPARATORS)
+  }
+
+  atNumber(): boolean {
+    NUMBER.lastIndex = this.#index
+    return NUMBER.test(this.#d)
+  }
+
+  command(): PathCommand {
+    return this.#read(COMMAND, 'a command') as PathCommand
+  }
+
+  /**
+   * Reads the arguments of a single instruction for the given command
+   * @param {PathCommand} command
+   * @returns {(Vector2 | number)[]}
+   */
+  arguments(command: PathCommand): (Vector2 | number)[] {
+    switch (command.toUpperCase()) {
+      case 'H':
+      case 'V':
+        return [this.#number()]
+      case 'C':
+        return [this.#point(), this.#point(), this.#point()]
+      case 'S':
+      case 'Q':
+        return [this.#point(), this.#point()]
+      case 'A':
+        return [
+          this.#point(),
+          this.#number(),
+          Number(this.#read(FLAG, 'an arc flag')),
+          Number(this.#read(FLAG, 'an arc flag')),
+          this.#point(),
+        ]
+      default:
+        return [this.#point()]
+    }
+  }
+
+  #number(): number {
+    return Number(this.#read(NUMBER, 'a number'))
+  }
+
+  #point(): Vector2 {
+    return vec2(this.#number(), this.#number())
+  }
+
+  #read(pattern: RegExp, description: string): string {
+    const match = this.#match(pattern)
+    if (match === null) {
+      throw new Error(
+        `Unable to parse path data "${this.#d}": expected ${description} at position ${this.#index}`,
+      )
+    }
+    this.skipSeparators()
+    return match
+  }
+
+  #match(pattern: RegExp): string | null {
+    pattern.lastIndex = this.#index
+    const match = pattern.exec(this.#d)
+    if (match === null) {
+      return null
+    }
+    this.#index = pattern.lastIndex
+    return match[0]
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Pattern, pattern } from './pattern'
+import { Svg } from './svg'
+import { vec2 } from '../vector2'
+
+describe('pattern', () => {
+  it('builds tile content with the shape builder API', () => {
+    const p = pattern({ width: 2, height: 3, id: 'p' }, (p) => {
+      p.stroke = '#000'
+      p.line(vec2(0, 0), vec2(0, 3))
+    })
+    assert(p instanceof Pattern)
+    assert.strictEqual(p.width, 2)
+    assert.strictEqual(p.height, 3)
+    assert.strictEqual(
+      p.render(),
+      '<pattern id="p" x="0" y="0" width="2" height="3" patternUnits="userSpaceOnUse" stroke="#000"><line x1="0" y1="0" x2="0" y2="3" stroke="#000"></line></pattern>',
+    )
+  })
+})
+
+describe('Svg#definePattern', () => {
+  it('can be used as a fill or stroke', () => {
+    const svg = new Svg({})
+    const p = svg.definePattern(
+      { width: 2, height: 2, patternTransform: 'rotate(45)' },
+      (p) => {
+        p.circle({ x: 1, y: 1, radius: 0.5 })
+      },
+    )
+    svg.rect({ x: 0, y: 0, width: 10, height: 10, fill: p, stroke: p })
+    const actual = svg.render()
+    assert.ok(
+      actual.includes(
+        `<defs ><pattern id="${p.id}" x="0" y="0" width="2" height="2" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">`,
+      ),
+    )
+    assert.ok(actual.includes(`fill="url(#${p.id})" stroke="url(#${p.id})"`))
+    assert.strictEqual(actual.match(/<pattern/g)?.length, 1)
+  })
+})
@@ -0,0 +1,89 @@
+import { randomId } from '../internal.js'
+import { ShapeContainer } from './group.js'
+import { CommonAttributes } from './tag.js'
+
+export type PatternAttributes = CommonAttributes & {
+  /**
+   * Width of a single tile
+   */
+  width: number
+  /**
+   * Height of a single tile
+   */
+  height: number
+  /**
+   * @default 0
+   */
+  x?: number
+  /**
+   * @default 0
+   */
+  y?: number
+  /**
+   * Defaults to 'userSpaceOnUse' so that `width` and `height` are in the same units as the document.
+   * @default 'userSpaceOnUse'
+   */
+  patternUnits?: 'userSpaceOnUse' | 'objectBoundingBox'
+  /**
+   * @default 'userSpaceOnUse' (when omitted, the renderer default is used)
+   */
+  patternContentUnits?: 'userSpaceOnUse' | 'objectBoundingBox'
+  patternTransform?: string
+  viewBox?: string
+  /**
+   * @default Math.random().toString(16).replace(/^0\./, '')
+   */
+  id?: string
+}
+
+/**
+ * A `<pattern>` resource: tile content which is drawn once and repeated wherever the pattern is used as a `fill` or `stroke`.
+ * Content is added with the same builder API as `Svg` and `Group`.
+ *
+ * @example
+ *   const hatch = svg.definePattern({ width: 2, height: 2, patternTransform: 'rotate(45)' }, (p) => {
+ *     p.stroke = '#000'
+ *     p.strokeWidth = 0.2
+ *     p.line(vec2(0, 0), vec2(0, 2))
+ *   })
+ *   svg.circle({ center: svg.center, radius: 30, fill: hatch })
+ */
+export class Pattern extends ShapeContainer {
+  constructor({
+    width,
+    height,
+    x = 0,
+    y = 0,
+    patternUnits = 'userSpaceOnUse',
+    id = randomId(),
+    ...attributes
+  }: PatternAttributes) {
+    super('pattern', { id, x, y, width, height, patternUnits, ...attributes })
+  }
+
+  get id(): string {
+    return this.attributes.id
+  }
+
+  get width(): number {
+    return this.attributes.width
+  }
+
+  get height(): number {
+    return this.attributes.height
+  }
+}
+
+/**
+ * @param attributes
+ * @param builder Callback that receives the pattern for building tile content
+ * @returns The built Pattern
+ */
+export function pattern(
+  attributes: PatternAttributes,
+  builder: (pattern: Pattern) => void,
+): Pattern {
+  const p = new Pattern(attributes)
+  builder(p)
+  return p
+}
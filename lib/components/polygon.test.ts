@@ -1,7 +1,8 @@
 import { describe, it } from 'node:test'
-import { Polygon } from './polygon'
+import { Polygon, booleanOp } from './polygon'
 import assert from 'node:assert'
 import { vec2 } from '../vector2'
+import { Matrix2D } from '../matrix2d'
 
 describe('Polygon', () => {
   describe('render', () => {
@@ -130,3 +131,259 @@ describe('Polygon', () => {
     })
   })
 })
+
+describe('Polygon#transformed', () => {
+  it('returns a new polygon with transformed points and the same attributes', () => {
+    const p = new Polygon({
+      points: [vec2(0, 0), vec2(1, 0), vec2(1, 1)],
+      fill: '#f00',
+    })
+    const t = p.transformed(Matrix2D.translation(vec2(1, 0)).scale(2, -1))
+    assert(t instanceof Polygon)
+    assert.notStrictEqual(t, p)
+    assert.strictEqual(
+      t.render(),
+      '<polygon fill="#f00" points="1,0 3,0 3,-1"></polygon>',
+    )
+    assert.deepStrictEqual(p.points, [vec2(0, 0), vec2(1, 0), vec2(1, 1)])
+  })
+})
+
+describe('derived polygons', () => {
+  it('copy the attributes but not the transforms', () => {
+    const p = new Polygon({
+      points: [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)],
+      fill: '#f00',
+      transform: 'rotate(45)',
+    }).translate(vec2(1, 1))
+    const other = new Polygon({
+      points: [vec2(2, 2), vec2(6, 2), vec2(6, 6), vec2(2, 6)],
+    })
+    for (const derived of [
+      p.transformed(Matrix2D.identity()),
+      p.reverse(),
+      p.smooth(),
+      p.simplify(0.1),
+      ...p.union(other),
+      ...p.offset(1),
+    ]) {
+      assert.deepStrictEqual(derived.attributes, { fill: '#f00' })
+      assert.strictEqual(derived.transforms.length, 0)
+    }
+  })
+})
+
+describe('Polygon#smooth', () => {
+  it('treats the polygon as closed', () => {
+    const p = new Polygon({
+      points: [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)],
+    })
+    const smoothed = p.smooth({ closed: false })
+    assert.strictEqual(smoothed.points.length, 8)
+    assert.strictEqual(smoothed.boundingBox.width, 4)
+  })
+})
+
+describe('Polygon#simplify', () => {
+  it('keeps the polygon closed', () => {
+    const p = new Polygon({
+      points: [vec2(0, 0), vec2(2, 0.01), vec2(4, 0), vec2(2, 3)],
+    })
+    assert.deepStrictEqual(p.simplify(0.1).points, [
+      vec2(0, 0),
+      vec2(4, 0),
+      vec2(2, 3),
+    ])
+    assert.strictEqual(
+      p.simplify(10, { algorithm: 'visvalingam' }).points.length,
+      3,
+    )
+  })
+})
+
+describe('Polygon holes', () => {
+  const donut = new Polygon({
+    points: [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)],
+    holes: [[vec2(1, 1), vec2(3, 1), vec2(3, 3), vec2(1, 3)]],
+    fill: '#000',
+  })
+
+  it('renders as a path with the even-odd fill rule', () => {
+    assert.strictEqual(
+      donut.render(),
+      '<path fill="#000" fill-rule="evenodd" d="M 0,0 L 4,0 L 4,4 L 0,4 Z M 1,1 L 3,1 L 3,3 L 1,3 Z"></path>',
+    )
+  })
+
+  it('does not change the polygon when rendering holes', () => {
+    const p = new Polygon({
+      points: [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)],
+      holes: [[vec2(1, 1), vec2(3, 1), vec2(3, 3), vec2(1, 3)]],
+    }).translate(vec2(1, 2))
+    assert.strictEqual(
+      p.render(),
+      '<path fill-rule="evenodd" d="M 0,0 L 4,0 L 4,4 L 0,4 Z M 1,1 L 3,1 L 3,3 L 1,3 Z" transform="translate(1 2)"></path>',
+    )
+    assert.strictEqual(p.tagName, 'polygon')
+    assert.deepStrictEqual(p.attributes, {})
+    p.holes = []
+    assert.strictEqual(
+      p.render(),
+      '<polygon points="0,0 4,0 4,4 0,4" transform="translate(1 2)"></polygon>',
+    )
+  })
+
+  it('does not contain points in the holes', () => {
+    assert(donut.contains(vec2(0.5, 0.5)))
+    assert(!donut.contains(vec2(2, 2)))
+  })
+
+  it('transforms the holes', () => {
+    const t = donut.transformed(Matrix2D.scaling(2))
+    assert.deepStrictEqual(t.holes[0][2], vec2(6, 6))
+  })
+})
+
+describe('Polygon boolean operations', () => {
+  const a = new Polygon({
+    points: [vec2(0, 0), vec2(2, 0), vec2(2, 2), vec2(0, 2)],
+    fill: '#f00',
+  })
+  const b = new Polygon({
+    points: [vec2(1, 1), vec2(3, 1), vec2(3, 3), vec2(1, 3)],
+  })
+
+  it('keeps the attributes of the polygon', () => {
+    const [union] = a.union(b)
+    assert.strictEqual(union.attributes.fill, '#f00')
+    assert.strictEqual(union.points.length, 8)
+  })
+
+  it('computes the intersection, difference and xor', () => {
+    assert.deepStrictEqual(a.intersection(b)[0].boundingBox.vertices(), [
+      vec2(1, 1),
+      vec2(1, 2),
+      vec2(2, 2),
+      vec2(2, 1),
+    ])
+    assert.strictEqual(a.difference(b)[0].points.length, 6)
+    assert.strictEqual(a.xor(b).length, 2)
+  })
+
+  it('cuts holes', () => {
+    const big = new Polygon({
+      points: [vec2(-1, -1), vec2(5, -1), vec2(5, 5), vec2(-1, 5)],
+    })
+    const [result, ...rest] = big.difference([a, b])
+    assert.strictEqual(rest.length, 0)
+    assert.strictEqual(result.holes.length, 1)
+    assert(!result.contains(vec2(1.5, 1.5)))
+    assert(result.contains(vec2(4, 0)))
+  })
+})
+
+describe('booleanOp', () => {
+  it('returns polygons without attributes', () => {
+    const a = new Polygon({
+      points: [vec2(0, 0), vec2(2, 0), vec2(2, 2), vec2(0, 2)],
+      fill: '#f00',
+    })
+    const [result] = booleanOp([a], [], 'union')
+    assert.strictEqual(result.attributes.fill, undefined)
+    assert.strictEqual(result.points.length, 4)
+  })
+})
+
+describe('Polygon#offset', () => {
+  it('returns new polygons with the same attributes', () => {
+    const p = new Polygon({
+      points: [vec2(0, 0), vec2(10, 0), vec2(10, 10), vec2(0, 10)],
+      stroke: '#000',
+    })
+    const [inset] = p.offset(-1)
+    assert.strictEqual(inset.attributes.stroke, '#000')
+    assert.deepStrictEqual(inset.boundingBox.vertices(), [
+      vec2(1, 1),
+      vec2(1, 9),
+      vec2(9, 9),
+      vec2(9, 1),
+    ])
+  })
+})
+
+describe('Polygon measures', () => {
+  // clockwise on screen
+  const square = new Polygon({
+    points: [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)],
+  })
+  const donut = new Polygon({
+    points: [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)],
+    holes: [[vec2(0, 0), vec2(0, 2), vec2(2, 2), vec2(2, 0)]],
+  })
+  const bowtie = new Polygon({
+    points: [vec2(0, 0), vec2(2, 2), vec2(2, 0), vec2(0, 2)],
+  })
+  const arrow = new Polygon({
+    points: [vec2(0, 0), vec2(4, 2), vec2(0, 4), vec2(1, 2)],
+  })
+
+  it('computes the signed area', () => {
+    assert.strictEqual(square.area(), 16)
+    assert.strictEqual(square.reverse().area(), -16)
+    assert.strictEqual(donut.area(), 12)
+  })
+
+  it('computes the centroid', () => {
+    assert.deepStrictEqual(square.centroid(), vec2(2, 2))
+    // the hole in the top left corner moves the centroid down and to the right
+    const c = donut.centroid()
+    assert(Math.abs(c.x - 7 / 3) < 1e-9)
+    assert(Math.abs(c.y - 7 / 3) < 1e-9)
+    const line = new Polygon({ points: [vec2(0, 0), vec2(2, 0), vec2(4, 0)] })
+    assert.deepStrictEqual(line.centroid(), vec2(2, 0))
+  })
+
+  it('computes the perimeter', () => {
+    assert.strictEqual(square.perimeter(), 16)
+    assert.strictEqual(donut.perimeter(), 24)
+  })
+
+  it('determines the winding', () => {
+    assert(square.isClockwise())
+    assert(!square.reverse().isClockwise())
+  })
+
+  it('determines convexity', () => {
+    assert(square.isConvex())
+    assert(square.reverse().isConvex())
+    assert(!arrow.isConvex())
+    assert(!bowtie.isConvex())
+    assert(!donut.isConvex())
+  })
+
+  it('detects self-intersections', () => {
+    assert(square.isSimple())
+    assert(arrow.isSimple())
+    assert(!bowtie.isSimple())
+    // the hole touches the outer boundary
+    assert(!donut.isSimple())
+    const spike = new Polygon({
+      points: [vec2(0, 0), vec2(4, 0), vec2(2, 0), vec2(2, 2)],
+    })
+    assert(!spike.isSimple())
+  })
+
+  it('reverses the points and keeps the attributes', () => {
+    const p = new Polygon({ points: square.points, fill: '#000' })
+    const r = p.reverse()
+    assert.deepStrictEqual(r.points, [...square.points].reverse())
+    assert.strictEqual(r.attributes.fill, '#000')
+  })
+
+  it('returns the edges', () => {
+    const edges = square.edges()
+    assert.strictEqual(edges.length, 4)
+    assert.deepStrictEqual(edges[3].points, [vec2(0, 4), vec2(0, 0)])
+    assert.strictEqual(donut.edges().length, 8)
+  })
+})
@@ -1,15 +1,52 @@
+import { omit } from '../internal.js'
 import { toFixedPrecision } from '../math.js'
+import type { Matrix2D } from '../matrix2d.js'
 import { Decimal } from '../types.js'
 import { Vector2 } from '../vector2.js'
 import { Rectangle } from './rectangle.js'
+import { LineSegment } from './polyline.js'
+import { SmoothOptions, smooth } from '../algorithms/smoothing.js'
+import { SimplifyAlgorithm, simplify } from '../algorithms/simplify.js'
+import {
+  BooleanOperation,
+  overlay,
+  signedArea,
+} from '../algorithms/polygon-boolean.js'
+import { OffsetOptions, offsetRings } from '../algorithms/offset.js'
 import { CommonAttributes, Tag } from './tag.js'
 
 type PolygonAttributes = CommonAttributes & {
   points?: Vector2[]
+  /**
+   * Rings which are cut out of the polygon. Polygons with holes are rendered as a `<path>`
+   * with `fill-rule="evenodd"`, because the `<polygon>` element does not support holes.
+   */
+  holes?: Vector2[][]
+}
+
+/**
+ * Geometric measures shared by polygonal shapes.
+ * Orientations refer to the screen, i.e. SVG's y-down coordinate system.
+ */
+export interface PolygonMeasures {
+  area(): number
+  centroid(): Vector2
+  perimeter(): number
+  isClockwise(): boolean
+  isConvex(): boolean
+  isSimple(): boolean
+  reverse(): Polygon
+  edges(): LineSegment[]
 }
 
-export class Polygon extends Tag {
+/**
+ * A closed shape, optionally with holes.
+ * Methods which return new polygons (e.g. `transformed`, `reverse`, `smooth`, `union` and `offset`) copy this polygon's
+ * attributes, but not its transforms (via `transform` or the transform methods).
+ */
+export class Polygon extends Tag implements PolygonMeasures {
   points: Vector2[] = []
+  holes: Vector2[][] = []
   /**
    * Initialize to "empty" rectangle
    */
@@ -18,10 +55,13 @@ export class Polygon extends Tag {
   #ys: Decimal[] = []
 
   constructor(
-    { points = [], ...attributes }: PolygonAttributes = { points: [] },
+    { points = [], holes = [], ...attributes }: PolygonAttributes = {
+      points: [],
+    },
   ) {
     super('polygon', attributes)
     this.points = points
+    this.holes = holes
     this.#xs = points.map(({ x }) => x)
     this.#ys = points.map(({ y }) => y)
   }
@@ -45,6 +85,7 @@ export class Polygon extends Tag {
 
   /**
    * Returns true when the given point is inside the polygon, and false when outside.
+   * Points inside a hole are outside the polygon.
    * If the point lies on the edge of the polygon, the results might not be predictable.
    * Credit: https://stackoverflow.com/a/2922778/3991555
    * Original: https://wrf.ecse.rpi.edu/Research/Short_Notes/pnpoly.html
@@ -65,27 +106,388 @@ export class Polygon extends Tag {
         c = !c
       }
     }
-    return c
+    return (
+      c &&
+      !this.holes.some((hole) => new Polygon({ points: hole }).contains(point))
+    )
+  }
+
+  /**
+   * The signed area of the polygon, excluding its holes.
+   * Positive when the points wind clockwise on screen, and negative when counterclockwise.
+   * @returns {number}
+   */
+  area(): number {
+    const outer = signedArea(this.points)
+    const holes = this.holes.reduce(
+      (sum, hole) => sum + Math.abs(signedArea(hole)),
+      0,
+    )
+    return Math.sign(outer) * (Math.abs(outer) - holes)
+  }
+
+  /**
+   * The center of mass of the polygon, excluding its holes.
+   * Falls back to the average of the points when the polygon has no area.
+   * @returns {Vector2}
+   */
+  centroid(): Vector2 {
+    let totalArea = 0
+    let sum = new Vector2(0, 0)
+    for (const [i, ring] of [this.points, ...this.holes].entries()) {
+      // the area of holes is subtracted, regardless of their orientation
+      const area = Math.abs(signedArea(ring)) * (i === 0 ? 1 : -1)
+      if (area !== 0) {
+        totalArea += area
+        sum = sum.add(ringCentroid(ring).multiply(area))
+      }
+    }
+    return totalArea === 0
+      ? this.points
+          .reduce((acc, point) => acc.add(point), new Vector2(0, 0))
+          .divide(this.points.length)
+      : sum.divide(totalArea)
+  }
+
+  /**
+   * The total length of the edges, including the edges of holes.
+   * @returns {number}
+   */
+  perimeter(): number {
+    return [this.points, ...this.holes].reduce(
+      (sum, ring) =>
+        sum +
+        ring.reduce(
+          (length, point, i) =>
+            length + point.distanceTo(ring[(i + 1) % ring.length]),
+          0,
+        ),
+      0,
+    )
+  }
+
+  /**
+   * True when the points wind clockwise on screen.
+   * @returns {boolean}
+   */
+  isClockwise(): boolean {
+    return signedArea(this.points) > 0
+  }
+
+  /**
+   * True when the polygon is simple, has no holes, and every corner turns in the same direction.
+   * Collinear points are allowed.
+   * @returns {boolean}
+   */
+  isConvex(): boolean {
+    if (this.holes.length > 0 || this.points.length < 3) {
+      return false
+    }
+    let sign = 0
+    for (const [i, point] of this.points.entries()) {
+      const previous =
+        this.points[(i - 1 + this.points.length) % this.points.length]
+      const next = this.points[(i + 1) % this.points.length]
+      const turn = Math.sign(
+        point.subtract(previous).cross(next.subtract(point)),
+      )
+      if (turn !== 0) {
+        if (sign !== 0 && turn !== sign) {
+          return false
+        }
+        sign = turn
+      }
+    }
+    return this.isSimple()
+  }
+
+  /**
+   * True when no edges intersect, other than consecutive edges at their shared point.
+   * Holes must not intersect the outer boundary or each other.
+   * @returns {boolean}
+   */
+  isSimple(): boolean {
+    const edges = [this.points, ...this.holes].flatMap((ring, r) =>
+      ring.map((point, i) => ({
+        ring: r,
+        index: i,
+        count: ring.length,
+        start: point,
+        end: ring[(i + 1) % ring.length],
+      })),
+    )
+    for (let i = 0; i < edges.length; i++) {
+      for (let j = i + 1; j < edges.length; j++) {
+        const a = edges[i]
+        const b = edges[j]
+        const consecutive =
+          a.ring === b.ring &&
+          (b.index - a.index === 1 ||
+            (a.index === 0 && b.index === a.count - 1))
+        if (consecutive) {
+          // consecutive edges which double back over each other overlap
+          const [first, second] = b.index - a.index === 1 ? [a, b] : [b, a]
+          const d1 = first.end.subtract(first.start)
+          const d2 = second.end.subtract(second.start)
+          if (d1.cross(d2) === 0 && d1.dot(d2) < 0) {
+            return false
+          }
+        } else if (segmentsIntersect(a.start, a.end, b.start, b.end)) {
+          return false
+        }
+      }
+    }
+    return true
+  }
+
+  /**
+   * Returns a new Polygon with the order of the points reversed, which reverses its orientation.
+   * @returns {Polygon}
+   */
+  reverse(): Polygon {
+    return new Polygon({
+      ...this.#derivedAttributes(),
+      points: [...this.points].reverse(),
+      holes: this.holes.map((hole) => [...hole].reverse()),
+    })
+  }
+
+  /**
+   * The edges of the polygon, followed by the edges of its holes.
+   * @returns {LineSegment[]}
+   */
+  edges(): LineSegment[] {
+    return [this.points, ...this.holes].flatMap((ring) =>
+      ring.map(
+        (point, i) => new LineSegment(point, ring[(i + 1) % ring.length]),
+      ),
+    )
+  }
+
+  /**
+   * The region covered by this polygon or the other polygon(s).
+   * @param {Polygon | Polygon[]} other
+   * @returns {Polygon[]} new polygons with this polygon's attributes
+   */
+  union(other: Polygon | Polygon[]): Polygon[] {
+    return this.#booleanOp(other, 'union')
+  }
+
+  /**
+   * The region covered by both this polygon and the other polygon(s).
+   * @param {Polygon | Polygon[]} other
+   * @returns {Polygon[]} new polygons with this polygon's attributes
+   */
+  intersection(other: Polygon | Polygon[]): Polygon[] {
+    return this.#booleanOp(other, 'intersection')
+  }
+
+  /**
+   * The region covered by this polygon but not the other polygon(s).
+   * @param {Polygon | Polygon[]} other
+   * @returns {Polygon[]} new polygons with this polygon's attributes
+   */
+  difference(other: Polygon | Polygon[]): Polygon[] {
+    return this.#booleanOp(other, 'difference')
+  }
+
+  /**
+   * The region covered by exactly one of this polygon and the other polygon(s).
+   * @param {Polygon | Polygon[]} other
+   * @returns {Polygon[]} new polygons with this polygon's attributes
+   */
+  xor(other: Polygon | Polygon[]): Polygon[] {
+    return this.#booleanOp(other, 'xor')
+  }
+
+  /**
+   * Grows (positive distance) or shrinks (negative distance) the polygon.
+   * Shrinking may split the polygon into several polygons, or remove it entirely.
+   * @example
+   *   // concentric inset fill
+   *   let rings = [shape]
+   *   for (let i = 0; i < 10 && rings.length > 0; i++) {
+   *     rings = rings.flatMap((r) => r.offset(-2))
+   *     doc.polygons(rings)
+   *   }
+   * @param {number} distance
+   * @param {OffsetOptions} [options]
+   * @returns {Polygon[]} new polygons with this polygon's attributes
+   */
+  offset(distance: number, options: OffsetOptions = {}): Polygon[] {
+    const attributes = this.#derivedAttributes()
+    return offsetRings([this.points, ...this.holes], distance, options).map(
+      ([points, ...holes]) => new Polygon({ ...attributes, points, holes }),
+    )
+  }
+
+  #derivedAttributes() {
+    return omit(this.attributes, ['points', 'transform'])
+  }
+
+  #booleanOp(other: Polygon | Polygon[], operation: BooleanOperation) {
+    const attributes = this.#derivedAttributes()
+    return booleanOp(this, other, operation).map(
+      ({ points, holes }) => new Polygon({ ...attributes, points, holes }),
+    )
+  }
+
+  /**
+   * Returns a new Polygon with the matrix applied to its points.
+   * Transforms applied to this polygon (via `transform` or the transform methods) are not copied.
+   * @param {Matrix2D} matrix
+   * @returns {Polygon}
+   */
+  transformed(matrix: Matrix2D): Polygon {
+    return new Polygon({
+      ...this.#derivedAttributes(),
+      points: this.points.map((point) => matrix.apply(point)),
+      holes: this.holes.map((hole) => hole.map((point) => matrix.apply(point))),
+    })
+  }
+
+  /**
+   * Returns a new Polygon with smoothed points. The polygon is treated as closed; the `closed` option is ignored.
+   * @param {SmoothOptions} [options] the method defaults to `chaikin`
+   * @returns {Polygon}
+   */
+  smooth(options: SmoothOptions = {}): Polygon {
+    return new Polygon({
+      ...this.#derivedAttributes(),
+      points: smooth(this.points, { ...options, closed: true }),
+      holes: this.holes.map((hole) =>
+        smooth(hole, { ...options, closed: true }),
+      ),
+    })
+  }
+
+  /**
+   * Returns a new Polygon without the points which do not contribute much to its shape.
+   * The polygon never collapses to fewer than 3 points.
+   * @param {number} tolerance
+   * @param {{ algorithm?: SimplifyAlgorithm }} [options]
+   * @returns {Polygon}
+   */
+  simplify(
+    tolerance: number,
+    { algorithm }: { algorithm?: SimplifyAlgorithm } = {},
+  ): Polygon {
+    return new Polygon({
+      ...this.#derivedAttributes(),
+      points: simplify(this.points, tolerance, {
+        algorithm,
+        preserveClosed: true,
+      }),
+      holes: this.holes.map((hole) =>
+        simplify(hole, tolerance, { algorithm, preserveClosed: true }),
+      ),
+    })
   }
 
   render(): string {
     if (!Array.isArray(this.points) || this.points.length === 0) {
       throw new Error('Cannot render a Polygon without points')
     }
-    this.setAttributes({
-      points: this.points
-        .map((vec) =>
-          [
-            toFixedPrecision(vec.x, this.numericPrecision),
-            toFixedPrecision(vec.y, this.numericPrecision),
-          ].join(','),
-        )
-        .join(' '),
-    })
+    const format = (vec: Vector2) =>
+      [
+        toFixedPrecision(vec.x, this.numericPrecision),
+        toFixedPrecision(vec.y, this.numericPrecision),
+      ].join(',')
+    if (this.holes.length > 0) {
+      // holes can only be expressed with a path; render one without changing this polygon
+      const path = new Tag('path', {
+        ...omit(this.attributes, ['points']),
+        'fill-rule': this.attributes['fill-rule'] ?? 'evenodd',
+        d: [this.points, ...this.holes]
+          .map((ring) => `M ${ring.map(format).join(' L ')} Z`)
+          .join(' '),
+      }).copyTransformsFrom(this)
+      path.numericPrecision = this.numericPrecision
+      path.colorFormat = this.colorFormat
+      return path.render()
+    }
+    this.setAttributes({ points: this.points.map(format).join(' ') })
     return super.render()
   }
 }
 
+/**
+ * The centroid of a ring with a non-zero area.
+ * Credit: https://en.wikipedia.org/wiki/Centroid#Of_a_polygon
+ */
+function ringCentroid(ring: Vector2[]): Vector2 {
+  let x = 0
+  let y = 0
+  for (const [i, a] of ring.entries()) {
+    const b = ring[(i + 1) % ring.length]
+    const cross = a.cross(b)
+    x += (a.x + b.x) * cross
+    y += (a.y + b.y) * cross
+  }
+  return new Vector2(x, y).divide(6 * signedArea(ring))
+}
+
+/**
+ * True when the segments intersect or touch.
+ */
+function segmentsIntersect(
+  p1: Vector2,
+  p2: Vector2,
+  q1: Vector2,
+  q2: Vector2,
+): boolean {
+  const orientation = (a: Vector2, b: Vector2, c: Vector2) =>
+    Math.sign(b.subtract(a).cross(c.subtract(a)))
+  // when collinear, checks whether c lies within the bounds of the segment a-b
+  const onSegment = (a: Vector2, b: Vector2, c: Vector2) =>
+    Math.min(a.x, b.x) <= c.x &&
+    c.x <= Math.max(a.x, b.x) &&
+    Math.min(a.y, b.y) <= c.y &&
+    c.y <= Math.max(a.y, b.y)
+  const o1 = orientation(p1, p2, q1)
+  const o2 = orientation(p1, p2, q2)
+  const o3 = orientation(q1, q2, p1)
+  const o4 = orientation(q1, q2, p2)
+  if (o1 !== o2 && o3 !== o4) {
+    return true
+  }
+  return (
+    (o1 === 0 && onSegment(p1, p2, q1)) ||
+    (o2 === 0 && onSegment(p1, p2, q2)) ||
+    (o3 === 0 && onSegment(q1, q2, p1)) ||
+    (o4 === 0 && onSegment(q1, q2, p2))
+  )
+}
+
+/**
+ * Computes a boolean operation between polygons. Holes and self-intersections are supported;
+ * points are inside a polygon according to the even-odd rule, consistent with `Polygon#contains`.
+ * @example
+ *   // remove the overlap of a circle from a hexagon
+ *   const [outline] = booleanOp(hexagon, circle.toPolygon(), 'difference')
+ * @example
+ *   // merge many shapes at once
+ *   const merged = booleanOp(shapes, [], 'union')
+ * @param {Polygon | Polygon[]} subject when a list, the region covered by any of the polygons
+ * @param {Polygon | Polygon[]} clip when a list, the region covered by any of the polygons
+ * @param {BooleanOperation} operation
+ * @returns {Polygon[]} the resulting polygons, without any attributes
+ */
+export function booleanOp(
+  subject: Polygon | Polygon[],
+  clip: Polygon | Polygon[],
+  operation: BooleanOperation,
+): Polygon[] {
+  const rings = (polygons: Polygon | Polygon[]) =>
+    (Array.isArray(polygons) ? polygons : [polygons]).map((p) => [
+      p.points,
+      ...p.holes,
+    ])
+  return overlay(rings(subject), rings(clip), operation).map(
+    ([points, ...holes]) => new Polygon({ points, holes }),
+  )
+}
+
 export function polygon(atts: PolygonAttributes): Polygon
 export function polygon(builder: (p: Polygon) => void): Polygon
 export function polygon(
@@ -1,7 +1,10 @@
 import { describe, it } from 'node:test'
 import assert from 'node:assert'
-import { Polyline, lineSegment } from './polyline'
+import { LineSegment, Polyline, lineSegment } from './polyline'
+import { Rectangle } from './rectangle'
+import { Circle } from './circle'
 import { vec2 } from '../vector2'
+import { Matrix2D } from '../matrix2d'
 
 describe('Polyline', () => {
   describe('render', () => {
@@ -49,3 +52,95 @@ describe('LineSegment', () => {
     assert.strictEqual(actual, '<polyline points="0,0 100,100"></polyline>')
   })
 })
+
+describe('Polyline#transformed', () => {
+  it('returns a new polyline with transformed points', () => {
+    const p = new Polyline({ points: [vec2(0, 0), vec2(1, 2)] })
+    const t = p.transformed(Matrix2D.translation(vec2(1, 1)).scale(2))
+    assert(t instanceof Polyline)
+    assert.deepStrictEqual(t.points, [vec2(1, 1), vec2(3, 5)])
+  })
+
+  it('returns a LineSegment for a LineSegment', () => {
+    const t = lineSegment(vec2(0, 0), vec2(1, 0)).transformed(
+      Matrix2D.scaling(3),
+    )
+    assert.strictEqual(t.constructor.name, 'LineSegment')
+    assert.deepStrictEqual(t.points, [vec2(0, 0), vec2(3, 0)])
+  })
+})
+
+describe('Polyline#smooth', () => {
+  it('returns a new polyline with smoothed points', () => {
+    const p = new Polyline({
+      points: [vec2(0, 0), vec2(4, 0), vec2(4, 4)],
+      stroke: '#000',
+    })
+    const smoothed = p.smooth()
+    assert.strictEqual(
+      smoothed.render(),
+      '<polyline stroke="#000" points="0,0 3,0 4,1 4,4"></polyline>',
+    )
+    assert.strictEqual(p.points.length, 3)
+  })
+})
+
+describe('Polyline#simplify', () => {
+  it('returns a new polyline which preserves the end points', () => {
+    const p = new Polyline({
+      points: [vec2(0, 0), vec2(1, 0.01), vec2(2, 0), vec2(2, 2)],
+    })
+    assert.deepStrictEqual(p.simplify(0.1).points, [
+      vec2(0, 0),
+      vec2(2, 0),
+      vec2(2, 2),
+    ])
+    assert.strictEqual(p.points.length, 4)
+  })
+})
+
+describe('Polyline#clip', () => {
+  it('returns the pieces inside the region as new polylines', () => {
+    const p = new Polyline({
+      points: [vec2(-5, 5), vec2(5, 5), vec2(5, 15)],
+      stroke: '#000',
+    })
+    const [piece, ...rest] = p.clip(
+      new Rectangle({ x: 0, y: 0, width: 10, height: 10 }),
+    )
+    assert.strictEqual(rest.length, 0)
+    assert.strictEqual(
+      piece.render(),
+      '<polyline stroke="#000" points="0,5 5,5 5,10"></polyline>',
+    )
+  })
+})
+
+describe('LineSegment#clip', () => {
+  it('returns line segments', () => {
+    const pieces = lineSegment(vec2(-10, 0), vec2(10, 0)).clip(
+      new Circle({ center: vec2(0, 0), radius: 5 }),
+      { keep: 'outside' },
+    )
+    assert.strictEqual(pieces.length, 2)
+    assert(pieces[0] instanceof LineSegment)
+    assert.deepStrictEqual(pieces[1].points, [vec2(5, 0), vec2(10, 0)])
+  })
+})
+
+describe('Polyline#offset', () => {
+  it('returns the outline of the stroke', () => {
+    const p = new Polyline({
+      points: [vec2(0, 0), vec2(10, 0)],
+      stroke: '#000',
+    })
+    const [outline] = p.offset(1)
+    assert.strictEqual(outline.attributes.stroke, '#000')
+    assert.deepStrictEqual(outline.boundingBox.vertices(), [
+      vec2(0, -1),
+      vec2(0, 1),
+      vec2(10, 1),
+      vec2(10, -1),
+    ])
+  })
+})
@@ -1,7 +1,20 @@
+import { omit } from '../internal.js'
 import { toFixedPrecision } from '../math.js'
+import type { Matrix2D } from '../matrix2d.js'
 import { Vector2 } from '../vector2.js'
 import { Rectangle } from './rectangle.js'
+import { SmoothOptions, smooth } from '../algorithms/smoothing.js'
+import { SimplifyOptions, simplify } from '../algorithms/simplify.js'
 import { CommonAttributes, Tag } from './tag.js'
+import type { Marker } from './marker.js'
+import type { Circle } from './circle.js'
+import { Polygon } from './polygon.js'
+import { OutlineOptions, outlinePolyline } from '../algorithms/offset.js'
+import {
+  ClipOptions,
+  clipPolyline,
+  clipRegion,
+} from '../algorithms/line-clipping.js'
 
 type PolylineAttributes = CommonAttributes & {
   points?: Vector2[]
@@ -22,6 +35,18 @@ export class Polyline extends Tag {
     this.cursor = points[points.length - 1] ?? new Vector2(0, 0)
   }
 
+  set markerStart(value: Marker | string | null) {
+    this.setAttributes({ 'marker-start': value === null ? 'none' : value })
+  }
+
+  set markerMid(value: Marker | string | null) {
+    this.setAttributes({ 'marker-mid': value === null ? 'none' : value })
+  }
+
+  set markerEnd(value: Marker | string | null) {
+    this.setAttributes({ 'marker-end': value === null ? 'none' : value })
+  }
+
   /** @returns {Rectangle} */
   get boundingBox(): Rectangle {
     if (this.#boundingBox.empty()) {
@@ -57,6 +82,75 @@ export class Polyline extends Tag {
     return this.points.length === 0
   }
 
+  /**
+   * Returns a new Polyline with the matrix applied to its points.
+   * Transforms applied to this polyline (via `transform` or the transform methods) are not copied.
+   * @param {Matrix2D} matrix
+   * @returns {Polyline}
+   */
+  transformed(matrix: Matrix2D): Polyline {
+    return new Polyline({
+      ...omit(this.attributes, ['points', 'transform']),
+      points: this.points.map((point) => matrix.apply(point)),
+    })
+  }
+
+  /**
+   * Returns a new Polyline with smoothed points. The polyline is treated as open; the `closed` option is ignored.
+   * @param {SmoothOptions} [options] the method defaults to `chaikin`
+   * @returns {Polyline}
+   */
+  smooth(options: SmoothOptions = {}): Polyline {
+    return new Polyline({
+      ...omit(this.attributes, ['points']),
+      points: smooth(this.points, { ...options, closed: false }),
+    })
+  }
+
+  /**
+   * Returns a new Polyline without the points which do not contribute much to its shape.
+   * The first and last points are always preserved.
+   * @param {number} tolerance
+   * @param {SimplifyOptions} [options]
+   * @returns {Polyline}
+   */
+  simplify(tolerance: number, options: SimplifyOptions = {}): Polyline {
+    return new Polyline({
+      ...omit(this.attributes, ['points']),
+      points: simplify(this.points, tolerance, options),
+    })
+  }
+
+  /**
+   * Cuts the polyline against the region, e.g. to keep the lines of a drawing on the page.
+   * @param {Rectangle | Circle | Polygon} region
+   * @param {ClipOptions} [options]
+   * @returns {Polyline[]} the pieces which were kept, with this polyline's attributes
+   */
+  clip(
+    region: Rectangle | Circle | Polygon,
+    options: ClipOptions = {},
+  ): Polyline[] {
+    const attributes = omit(this.attributes, ['points'])
+    return clipPolyline(this.points, clipRegion(region), options).map(
+      (points) => new Polyline({ ...attributes, points }),
+    )
+  }
+
+  /**
+   * The outline of the polyline when stroked with a width of `2 * distance`,
+   * e.g. to draw thick strokes as outlines with a plotter.
+   * @param {number} distance half of the stroke width
+   * @param {OutlineOptions} [options]
+   * @returns {Polygon[]} new polygons with this polyline's attributes, without its transforms
+   */
+  offset(distance: number, options: OutlineOptions = {}): Polygon[] {
+    const attributes = omit(this.attributes, ['points', 'transform'])
+    return outlinePolyline(this.points, distance, options).map(
+      ([points, ...holes]) => new Polygon({ ...attributes, points, holes }),
+    )
+  }
+
   render(): string {
     if (!Array.isArray(this.points) || this.points.length === 0) {
       throw new Error('Cannot render a Polyline without points')
@@ -99,6 +193,37 @@ export class LineSegment extends Polyline {
       points: [start, end],
     })
   }
+
+  /**
+   * @param {Matrix2D} matrix
+   * @returns {LineSegment}
+   */
+  transformed(matrix: Matrix2D): LineSegment {
+    const segment = new LineSegment(
+      matrix.apply(this.points[0]),
+      matrix.apply(this.points[1]),
+    )
+    segment.setAttributes(omit(this.attributes, ['points', 'transform']))
+    return segment
+  }
+
+  /**
+   * @param {Rectangle | Circle | Polygon} region
+   * @param {ClipOptions} [options]
+   * @returns {LineSegment[]}
+   */
+  clip(
+    region: Rectangle | Circle | Polygon,
+    options: ClipOptions = {},
+  ): LineSegment[] {
+    return clipPolyline(this.points, clipRegion(region), options).map(
+      ([start, end]) => {
+        const segment = new LineSegment(start, end)
+        segment.setAttributes(omit(this.attributes, ['points']))
+        return segment
+      },
+    )
+  }
 }
 
 /**
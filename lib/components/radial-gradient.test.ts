@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { RadialGradient } from './radial-gradient'
+import { ColorSequence } from '../color/color-sequence'
+import { vec2 } from '../vector2'
+
+describe('RadialGradient', () => {
+  describe('constructor', () => {
+    it('throws without stops or colors', () => {
+      assert.throws(() => new RadialGradient({}))
+    })
+  })
+
+  describe('render', () => {
+    it('renders geometry attributes and stops', () => {
+      const actual = new RadialGradient({
+        colors: ['#000', '#fff'],
+        center: vec2(0.5, 0.4),
+        radius: 0.6,
+        focalPoint: vec2(0.3, 0.2),
+        spreadMethod: 'reflect',
+        gradientUnits: 'userSpaceOnUse',
+        gradientTransform: 'rotate(45)',
+        id: 'rg',
+      }).render()
+      const expected = [
+        '<radialGradient cx="0.5" cy="0.4" r="0.6" fx="0.3" fy="0.2" spreadMethod="reflect" gradientUnits="userSpaceOnUse" gradientTransform="rotate(45)" id="rg">',
+        '<stop id="rg_0" offset="0" stop-color="rgb(0, 0, 0, 1)" style="stop-color:#000000;stop-opacity:1;"></stop>',
+        '<stop id="rg_1" offset="100" stop-color="rgb(255, 255, 255, 1)" style="stop-color:#ffffff;stop-opacity:1;"></stop>',
+        '</radialGradient>',
+      ].join('')
+      assert.strictEqual(actual, expected)
+    })
+
+    it('omits optional attributes', () => {
+      const actual = new RadialGradient({ colors: ['#000'], id: 'rg' }).render()
+      assert.ok(
+        actual.startsWith('<radialGradient cx="0.5" cy="0.5" r="0.5" id="rg">'),
+      )
+    })
+
+    it('creates stops from a ColorSequence', () => {
+      const sequence = new ColorSequence([
+        [0, '#000'],
+        [0.25, '#fff'],
+      ])
+      const actual = new RadialGradient({ sequence, id: 'rg' }).render()
+      assert.ok(
+        actual.includes(
+          '<stop id="rg_0" offset="0" stop-color="hsl(0, 0%, 0%, 1)"',
+        ),
+      )
+      assert.ok(
+        actual.includes(
+          '<stop id="rg_1" offset="25" stop-color="hsl(0, 0%, 100%, 1)"',
+        ),
+      )
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { randomId } from '../internal.js'
+import { Vector2, vec2 } from '../vector2.js'
+import {
+  GradientColorAttributes,
+  gradientStops,
+  hasGradientColors,
+} from './gradient-stop.js'
+import { CommonAttributes, Tag } from './tag.js'
+
+export type SpreadMethod = 'pad' | 'reflect' | 'repeat'
+export type GradientUnits = 'userSpaceOnUse' | 'objectBoundingBox'
+
+export type RadialGradientAttributes = CommonAttributes &
+  GradientColorAttributes & {
+    /**
+     * The center of the end circle
+     * @default new Vector2(0.5, 0.5)
+     */
+    center?: Vector2
+    /**
+     * The radius of the end circle
+     * @default 0.5
+     */
+    radius?: number
+    /**
+     * The center of the start circle. When omitted, the renderer uses `center`.
+     */
+    focalPoint?: Vector2
+    /**
+     * The radius of the start circle. When omitted, the renderer uses 0.
+     */
+    focalRadius?: number
+    /**
+     * @default 'pad' (when omitted, the renderer default is used)
+     */
+    spreadMethod?: SpreadMethod
+    /**
+     * @default 'objectBoundingBox' (when omitted, the renderer default is used)
+     */
+    gradientUnits?: GradientUnits
+    gradientTransform?: string
+    /**
+     * @default Math.random().toString(16).replace(/^0\./, '')
+     */
+    id?: string
+    /**
+     * @default Infinity
+     */
+    numericPrecision?: number
+  }
+
+/**
+ * @example
+ *   const grad = svg.defineRadialGradient({
+ *     colors: ['#fff', '#000'],
+ *     center: vec2(0.5, 0.5),
+ *     radius: 0.5,
+ *     focalPoint: vec2(0.3, 0.3),
+ *   })
+ *   svg.circle({ center: svg.center, radius: 20, fill: grad })
+ */
+export class RadialGradient extends Tag {
+  constructor({
+    stops,
+    colors,
+    sequence,
+    center = vec2(0.5, 0.5),
+    radius = 0.5,
+    focalPoint,
+    focalRadius,
+    spreadMethod,
+    gradientUnits,
+    gradientTransform,
+    id = randomId(),
+    numericPrecision = Infinity,
+  }: RadialGradientAttributes = {}) {
+    if (!hasGradientColors({ stops, colors, sequence })) {
+      throw new Error(
+        'Cannot create radial gradient without at least one stop or color',
+      )
+    }
+
+    super('radialGradient', {
+      cx: center.x,
+      cy: center.y,
+      r: radius,
+      fx: focalPoint?.x,
+      fy: focalPoint?.y,
+      fr: focalRadius,
+      spreadMethod,
+      gradientUnits,
+      gradientTransform,
+      id,
+    })
+    this.numericPrecision = numericPrecision
+    this.children = gradientStops(
+      { stops, colors, sequence },
+      this.id,
+      this.numericPrecision,
+    )
+  }
+
+  get id(): string {
+    return this.attributes.id
+  }
+}
@@ -1,6 +1,9 @@
 import { describe, it } from 'node:test'
 import assert from 'node:assert'
 import { Rectangle, rect } from './rectangle'
+import { Polygon } from './polygon'
+import { Matrix2D } from '../matrix2d'
+import { vec2 } from '../vector2'
 
 describe('rect', () => {
   it('returns a Rectangle', () => {
@@ -50,3 +53,71 @@ describe('Rectangle', () => {
     assert.strictEqual(r.center.y, 3)
   })
 })
+
+describe('Rectangle#transformed', () => {
+  it('returns a Rectangle for axis-aligned transforms', () => {
+    const r = new Rectangle({ x: 1, y: 1, width: 2, height: 3, rx: 1 })
+    const t = r.transformed(Matrix2D.scaling(-2, 1))
+    assert(t instanceof Rectangle)
+    assert.strictEqual(
+      t.render(),
+      '<rect x="-6" y="1" width="4" height="3" rx="2" ry="1"></rect>',
+    )
+  })
+
+  it('returns a Polygon when rotated', () => {
+    const r = new Rectangle({ x: 0, y: 0, width: 2, height: 1, fill: '#000' })
+    const m = Matrix2D.rotation(0.5)
+    const t = r.transformed(m)
+    assert(t instanceof Polygon)
+    assert.strictEqual(t.attributes.fill, '#000')
+    assert.deepStrictEqual(
+      t.points,
+      r.vertices().map((p) => m.apply(p)),
+    )
+  })
+
+  it('returns a Rectangle when rotated by 90 degrees', () => {
+    const r = new Rectangle({
+      x: 1,
+      y: 0,
+      width: 2,
+      height: 1,
+      rx: 0.5,
+      ry: 0.25,
+    })
+    const t = r.transformed(Matrix2D.rotation(Math.PI / 2))
+    assert(t instanceof Rectangle)
+    assert(Math.abs(t.x - -1) < 1e-9)
+    assert(Math.abs(t.y - 1) < 1e-9)
+    assert(Math.abs(t.width - 1) < 1e-9)
+    assert(Math.abs(t.height - 2) < 1e-9)
+    assert(Math.abs(t.attributes.rx - 0.25) < 1e-9)
+    assert(Math.abs(t.attributes.ry - 0.5) < 1e-9)
+  })
+})
+
+describe('Rectangle#toPolygon', () => {
+  it('converts the rectangle to a polygon', () => {
+    const r = new Rectangle({ x: 1, y: 2, width: 3, height: 4, fill: '#000' })
+    assert.strictEqual(
+      r.toPolygon().render(),
+      '<polygon fill="#000" points="1,2 1,6 4,6 4,2"></polygon>',
+    )
+  })
+})
+
+describe('Rectangle measures', () => {
+  const r = new Rectangle({ x: 1, y: 1, width: 4, height: 2 })
+
+  it('matches the measures of the equivalent polygon', () => {
+    assert.strictEqual(r.area(), -8)
+    assert.deepStrictEqual(r.centroid(), vec2(3, 2))
+    assert.strictEqual(r.perimeter(), 12)
+    assert(!r.isClockwise())
+    assert(r.isConvex())
+    assert(r.isSimple())
+    assert(r.reverse().isClockwise())
+    assert.strictEqual(r.edges().length, 4)
+  })
+})
@@ -1,4 +1,7 @@
+import { omit } from '../internal.js'
+import type { Matrix2D } from '../matrix2d.js'
 import { Vector2, vec2 } from '../vector2.js'
+import { Polygon, PolygonMeasures } from './polygon.js'
 import { LineSegment } from './polyline.js'
 import { CommonAttributes, Tag } from './tag.js'
 
@@ -48,7 +51,7 @@ type RectangleAttributes = CommonAttributes & {
  * @example
  *   const r = rect({ x: 1, y: 10, width: 100, height: 15, borderRadius: 1.4 })
  */
-export class Rectangle extends Tag {
+export class Rectangle extends Tag implements PolygonMeasures {
   constructor(attributes: RectangleAttributes = {}) {
     super('rect', {
       x: attributes.x ?? 0,
@@ -104,6 +107,19 @@ export class Rectangle extends Tag {
     return vec2(this.x, this.y)
   }
 
+  /**
+   * A copy of this rectangle's geometry, for consistency with the other shapes
+   * @returns {Rectangle}
+   */
+  get boundingBox(): Rectangle {
+    return new Rectangle({
+      x: this.x,
+      y: this.y,
+      width: this.width,
+      height: this.height,
+    })
+  }
+
   vertices(): Vector2[] {
     return [
       vec2(this.x, this.y),
@@ -128,6 +144,94 @@ export class Rectangle extends Tag {
     ]
   }
 
+  /**
+   * The signed area; see `Polygon#area`. Negative, because the vertices wind counterclockwise on screen.
+   * @returns {number}
+   */
+  area(): number {
+    return this.toPolygon().area()
+  }
+
+  /**
+   * @returns {Vector2}
+   */
+  centroid(): Vector2 {
+    return this.center
+  }
+
+  /**
+   * @returns {number}
+   */
+  perimeter(): number {
+    return 2 * (Math.abs(this.width) + Math.abs(this.height))
+  }
+
+  /**
+   * @returns {boolean}
+   */
+  isClockwise(): boolean {
+    return this.toPolygon().isClockwise()
+  }
+
+  /**
+   * Rectangles are always convex, unless they are empty.
+   * @returns {boolean}
+   */
+  isConvex(): boolean {
+    return this.toPolygon().isConvex()
+  }
+
+  /**
+   * @returns {boolean}
+   */
+  isSimple(): boolean {
+    return this.toPolygon().isSimple()
+  }
+
+  /**
+   * A polygon with the vertices in reverse order.
+   * @returns {Polygon}
+   */
+  reverse(): Polygon {
+    return this.toPolygon().reverse()
+  }
+
+  /**
+   * The same as `sides`.
+   * @returns {LineSegment[]}
+   */
+  edges(): LineSegment[] {
+    return this.sides()
+  }
+
+  /**
+   * The smallest axis-aligned rectangle containing all the points.
+   * Returns an empty rectangle when there are no points.
+   * @param {Vector2[]} points
+   * @returns {Rectangle}
+   */
+  static fromPoints(points: Vector2[]): Rectangle {
+    if (points.length === 0) {
+      return new Rectangle({ x: 0, y: 0, width: 0, height: 0 })
+    }
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (const { x, y } of points) {
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    }
+    return new Rectangle({
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+    })
+  }
+
   static fromCenter(center: Vector2, width: number, height: number): Rectangle {
     return new Rectangle({
       x: center.x - width / 2,
@@ -137,6 +241,70 @@ export class Rectangle extends Tag {
     })
   }
 
+  /**
+   * Converts the rectangle to a polygon, e.g. for use in boolean operations.
+   * Rounded corners (`rx` and `ry`) are not included.
+   * Transforms applied to this rectangle (via `transform` or the transform methods) are not copied.
+   * @returns {Polygon}
+   */
+  toPolygon(): Polygon {
+    return new Polygon({
+      ...omit(this.attributes, [
+        'x',
+        'y',
+        'width',
+        'height',
+        'rx',
+        'ry',
+        'borderRadius',
+        'transform',
+      ]),
+      points: this.vertices(),
+    })
+  }
+
+  /**
+   * Returns a new shape with the matrix applied.
+   * The result is a Rectangle when the matrix keeps it axis-aligned (see `Matrix2D#isAxisAligned`),
+   * otherwise a Polygon of the transformed vertices; border radii are not preserved on the Polygon.
+   * Transforms applied to this rectangle (via `transform` or the transform methods) are not copied.
+   * @param {Matrix2D} matrix
+   * @returns {Rectangle | Polygon}
+   */
+  transformed(matrix: Matrix2D): Rectangle | Polygon {
+    const { rx, ry } = this.attributes
+    const attributes = omit(this.attributes, [
+      'x',
+      'y',
+      'width',
+      'height',
+      'rx',
+      'ry',
+      'borderRadius',
+      'transform',
+    ])
+    if (matrix.isAxisAligned()) {
+      const a = matrix.apply(this.corner)
+      const b = matrix.apply(vec2(this.x + this.width, this.y + this.height))
+      return new Rectangle({
+        ...attributes,
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(b.x - a.x),
+        height: Math.abs(b.y - a.y),
+        ...(typeof rx === 'number' && {
+          // when rotated by 90°, the radii swap axes
+          rx: Math.abs(matrix.a) * rx + Math.abs(matrix.c) * (ry ?? rx),
+          ry: Math.abs(matrix.b) * rx + Math.abs(matrix.d) * (ry ?? rx),
+        }),
+      })
+    }
+    return new Polygon({
+      ...attributes,
+      points: this.vertices().map((point) => matrix.apply(point)),
+    })
+  }
+
   empty(): boolean {
     return this.x === 0 && this.y === 0 && this.width === 0 && this.height === 0
   }
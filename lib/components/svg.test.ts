@@ -5,6 +5,15 @@ import { LineSegment } from './polyline'
 import { vec2 } from '../vector2'
 import assert from 'node:assert'
 import { rgb } from '../color/rgb'
+import { Tag } from './tag'
+import { Group } from './group'
+import { Defs } from './defs'
+import { Path } from './path'
+import { Circle } from './circle'
+import { Rectangle } from './rectangle'
+import { Polygon } from './polygon'
+import { Polyline } from './polyline'
+import { RadialGradient } from './radial-gradient'
 
 describe('Svg', () => {
   describe('defineLinearGradient', () => {
@@ -35,7 +44,16 @@ describe('Svg', () => {
       const t = new Svg({ fill: grad })
       assert.strictEqual(
         t.render(),
-        '<svg viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="100" height="100" fill="url(#grad-id)"></svg>',
+        [
+          '<svg viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="100" height="100" fill="url(#grad-id)">',
+          '<defs >',
+          '<linearGradient x1="0" x2="0" y1="0" y2="1" id="grad-id">',
+          '<stop id="grad-id_0" offset="0" stop-color="rgb(0, 0, 0, 1)" style="stop-color:#000000;stop-opacity:1;"></stop>',
+          '<stop id="grad-id_1" offset="100" stop-color="rgb(255, 255, 255, 1)" style="stop-color:#ffffff;stop-opacity:1;"></stop>',
+          '</linearGradient>',
+          '</defs>',
+          '</svg>',
+        ].join(''),
       )
     })
 
@@ -52,6 +70,75 @@ describe('Svg', () => {
     })
   })
 
+  describe('defineRadialGradient', () => {
+    it('renders defs', () => {
+      const svg = new Svg({})
+      svg.defineRadialGradient({ colors: ['#000', '#fff'], id: 'rad' })
+      const actual = svg.render()
+      assert.ok(
+        actual.includes(
+          '<defs ><radialGradient cx="0.5" cy="0.5" r="0.5" id="rad">',
+        ),
+      )
+    })
+
+    it('renders radial gradient IDs when fill or stroke is a RadialGradient', () => {
+      const svg = new Svg({})
+      const grad = svg.defineRadialGradient({ colors: ['#000', '#fff'] })
+      svg.circle({ x: 1, y: 1, radius: 1, fill: grad, stroke: grad })
+      const actual = svg.render()
+      assert.ok(
+        actual.includes(
+          `<circle cx="1" cy="1" r="1" fill="url(#${grad.id})" stroke="url(#${grad.id})"></circle>`,
+        ),
+      )
+    })
+  })
+
+  describe('resource references', () => {
+    it('registers resources in defs that were not explicitly defined', () => {
+      const svg = new Svg({})
+      const grad = new LinearGradient({ id: 'g', colors: ['#000'] })
+      svg.group((g) => {
+        g.rect({ x: 0, y: 0, width: 1, height: 1, stroke: grad })
+      })
+      const actual = svg.render()
+      assert.ok(actual.includes('<defs ><linearGradient'))
+      assert.ok(actual.includes('stroke="url(#g)"'))
+    })
+
+    it('registers resources referenced by other resources', () => {
+      const svg = new Svg({})
+      const grad = new LinearGradient({ id: 'g', colors: ['#000'] })
+      const mask = new Tag('mask', { id: 'm' })
+      mask.addChild(new Tag('rect', { fill: grad }))
+      svg.rect({ x: 0, y: 0, width: 1, height: 1, mask })
+      const actual = svg.render()
+      assert.ok(actual.includes('<defs ><mask id="m"><rect fill="url(#g)">'))
+      assert.ok(actual.includes('</mask><linearGradient'))
+    })
+
+    it('does not register explicitly defined resources twice', () => {
+      const svg = new Svg({})
+      const grad = svg.defineLinearGradient({ colors: ['#000'] })
+      svg.rect({ x: 0, y: 0, width: 1, height: 1, fill: grad })
+      const actual = svg.render()
+      assert.strictEqual(actual.match(/<linearGradient/g)?.length, 1)
+    })
+
+    it('renders the same document when rendered twice', () => {
+      const svg = new Svg({})
+      svg.defineLinearGradient({ id: 'a', colors: ['#000'] })
+      const grad = new LinearGradient({ id: 'b', colors: ['#fff'] })
+      svg.rect({ x: 0, y: 0, width: 1, height: 1, fill: grad })
+      const first = svg.render()
+      assert.strictEqual(svg.render(), first)
+      assert.strictEqual(first.match(/<defs/g)?.length, 1)
+      assert.strictEqual(first.match(/<linearGradient/g)?.length, 2)
+      assert.strictEqual(svg.children.length, 1)
+    })
+  })
+
   describe('center', () => {
     it('is a Vector2 at the center of the viewport', () => {
       const center = new Svg({ width: 50, height: 50 }).center
@@ -76,4 +163,251 @@ describe('Svg', () => {
       assert.ok(actual.includes('<polyline points="5,5 15,25"></polyline>'))
     })
   })
+
+  describe('fromString', () => {
+    const source = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100" width="400" height="200">',
+      '  <defs>',
+      '    <radialGradient id="grad"><stop offset="0" stop-color="red"/><stop offset="1" stop-color="blue"/></radialGradient>',
+      '  </defs>',
+      '  <g stroke="#000" transform="translate(5 5)">',
+      '    <path d="M0 0L10 10z" fill="url(#grad)"/>',
+      '    <circle cx="5" cy="6" r="7"/>',
+      '    <rect x="1" y="2" width="3" height="4" rx="0.5"/>',
+      '    <polygon points="0,0 1,0 1,1"/>',
+      '    <polyline points="0 0 2 2"/>',
+      '  </g>',
+      '  <text x="1" y="2">a &amp; <tspan >b</tspan> c</text>',
+      '  <sodipodi:namedview pagecolor="#fff"/>',
+      '</svg>',
+    ].join('\n')
+
+    it('maps known elements to their classes', () => {
+      const svg = Svg.fromString(source)
+      const [defs, g, text, unknown] = svg.children
+      assert.strictEqual(defs.tagName, 'defs')
+      assert(defs.children[0] instanceof RadialGradient)
+      assert(g instanceof Group)
+      const [p, c, r, polygon, polyline] = g.children
+      assert(p instanceof Path)
+      assert(c instanceof Circle)
+      assert.strictEqual(c.radius, 7)
+      assert.deepStrictEqual(c.center, vec2(5, 6))
+      assert(r instanceof Rectangle)
+      assert.strictEqual(r.width, 3)
+      assert(polygon instanceof Polygon)
+      assert.deepStrictEqual(polygon.points, [
+        vec2(0, 0),
+        vec2(1, 0),
+        vec2(1, 1),
+      ])
+      assert(polyline instanceof Polyline)
+      assert.deepStrictEqual(polyline.points, [vec2(0, 0), vec2(2, 2)])
+      assert.strictEqual(text.tagName, 'text')
+      assert.strictEqual(unknown.constructor, Tag)
+      assert.strictEqual(unknown.tagName, 'sodipodi:namedview')
+    })
+
+    it('preserves the viewBox and derives the dimensions from it', () => {
+      const svg = Svg.fromString(source)
+      assert.strictEqual(svg.width, 200)
+      assert.strictEqual(svg.height, 100)
+      assert.strictEqual(svg.attributes.viewBox, '0 0 200 100')
+      assert.strictEqual(svg.attributes.width, '400')
+    })
+
+    it('renders an equivalent document', () => {
+      assert.strictEqual(
+        Svg.fromString(source).render(),
+        [
+          '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100" width="400" height="200">',
+          '<defs ><radialGradient id="grad"><stop offset="0" stop-color="red"></stop><stop offset="1" stop-color="blue"></stop></radialGradient></defs>',
+          '<g stroke="#000" transform="translate(5 5)">',
+          '<path fill="url(#grad)" d="M 0 0 L 10 10 z"></path>',
+          '<circle cx="5" cy="6" r="7"></circle>',
+          '<rect x="1" y="2" width="3" height="4" rx="0.5"></rect>',
+          '<polygon points="0,0 1,0 1,1"></polygon>',
+          '<polyline points="0,0 2,2"></polyline>',
+          '</g>',
+          '<text x="1" y="2">a &amp; <tspan >b</tspan> c</text>',
+          '<sodipodi:namedview pagecolor="#fff"></sodipodi:namedview>',
+          '</svg>',
+        ].join(''),
+      )
+    })
+
+    it('allows modifying the imported shapes', () => {
+      const svg = Svg.fromString(source)
+      const circle = svg.children[1].children[1] as Circle
+      circle.fill = '#f00'
+      assert(
+        svg
+          .render()
+          .includes('<circle cx="5" cy="6" r="7" fill="#f00"></circle>'),
+      )
+    })
+
+    it('throws when the root element is not <svg>', () => {
+      assert.throws(
+        () => Svg.fromString('<html></html>'),
+        /expected an <svg> root element but found <html>/,
+      )
+    })
+  })
+})
+
+describe('Svg#boundingBox', () => {
+  it('aggregates the bounding boxes of nested shapes', () => {
+    const svg = new Svg({ width: 100, height: 100 })
+    svg.circle(new Circle({ center: vec2(5, 5), radius: 5 }))
+    const g = new Group()
+    g.rect(new Rectangle({ x: 20, y: 20, width: 10, height: 5 }))
+    svg.group(g)
+    const box = svg.boundingBox
+    assert.deepStrictEqual(
+      [box.x, box.y, box.width, box.height],
+      [0, 0, 30, 25],
+    )
+  })
+
+  it('applies the transforms of children', () => {
+    const svg = new Svg({ width: 100, height: 100 })
+    const g = new Group()
+    g.rect(new Rectangle({ x: 0, y: 0, width: 10, height: 5 }).scale(2))
+    g.translate(vec2(10, 20))
+    svg.group(g)
+    const box = svg.boundingBox
+    assert.deepStrictEqual(
+      [box.x, box.y, box.width, box.height],
+      [10, 20, 20, 10],
+    )
+    const untransformed = svg.computeBoundingBox({ applyTransforms: false })
+    assert.deepStrictEqual(
+      [
+        untransformed.x,
+        untransformed.y,
+        untransformed.width,
+        untransformed.height,
+      ],
+      [0, 0, 10, 5],
+    )
+  })
+
+  it('skips shapes without any points', () => {
+    const svg = new Svg({ width: 100, height: 100 })
+    const g = new Group()
+    g.rect(new Rectangle({ x: 50, y: 60, width: 10, height: 5 }))
+    g.polygon(new Polygon())
+    g.path(new Path())
+    g.translate(vec2(10, 10))
+    svg.group(g)
+    const box = svg.boundingBox
+    assert.deepStrictEqual(
+      [box.x, box.y, box.width, box.height],
+      [60, 70, 10, 5],
+    )
+  })
+
+  it('skips definitions and returns an empty rectangle without shapes', () => {
+    const svg = new Svg({ width: 100, height: 100 })
+    svg.defineLinearGradient({ colors: ['#000', '#fff'] })
+    const box = svg.boundingBox
+    assert.deepStrictEqual([box.x, box.y, box.width, box.height], [0, 0, 0, 0])
+  })
+})
+
+describe('Svg#fitContent', () => {
+  it('scales and centers the content in the viewport', () => {
+    const svg = new Svg({ width: 100, height: 100 })
+    svg.setBackground('#fff')
+    svg.circle(new Circle({ center: vec2(0.5, 0.5), radius: 0.5 }))
+    const content = svg.fitContent({ padding: 10 })
+    assert.strictEqual(svg.children.length, 2)
+    assert(svg.children[1] === content)
+    assert(content.children[0] instanceof Circle)
+    const box = svg.boundingBox
+    assert.deepStrictEqual(
+      [box.x, box.y, box.width, box.height],
+      [0, 0, 100, 100],
+    )
+    const contentBox = content.computeBoundingBox()
+    assert.deepStrictEqual(
+      Rectangle.fromPoints(
+        contentBox.vertices().map((v) => content.transformMatrix().apply(v)),
+      ).vertices(),
+      new Rectangle({ x: 10, y: 10, width: 80, height: 80 }).vertices(),
+    )
+  })
+
+  it('leaves defs in place after rendering or parsing', () => {
+    const svg = new Svg({ width: 100, height: 100 })
+    const grad = new LinearGradient({ id: 'g', colors: ['#000'] })
+    svg.rect(new Rectangle({ x: 0, y: 0, width: 2, height: 1, fill: grad }))
+    svg.render()
+    svg.fitContent()
+    const rendered = svg.render()
+    assert.strictEqual(rendered.match(/<defs/g)?.length, 1)
+    assert(rendered.includes('height="100"><defs ><linearGradient'))
+
+    const parsed = Svg.fromString(
+      '<svg viewBox="0 0 100 100"><defs><linearGradient id="g"></linearGradient></defs><rect x="0" y="0" width="2" height="1" fill="url(#g)"></rect></svg>',
+    )
+    const content = parsed.fitContent()
+    assert.strictEqual(parsed.children.length, 2)
+    assert(parsed.children[0] instanceof Defs)
+    assert(parsed.children[1] === content)
+    assert.strictEqual(content.children.length, 1)
+  })
+
+  it('respects the viewBox', () => {
+    const svg = new Svg({ width: 100, height: 100, viewBox: '-50 -50 100 100' })
+    svg.rect(new Rectangle({ x: 0, y: 0, width: 2, height: 1 }))
+    const content = svg.fitContent({ mode: 'cover' })
+    assert.strictEqual(
+      content.render(),
+      '<g transform="translate(-100 -50) scale(100 100)"><rect x="0" y="0" width="2" height="1"></rect></g>',
+    )
+  })
+})
+
+describe('Svg#clipToViewport', () => {
+  it('trims lines and polygons to the viewport', () => {
+    const svg = new Svg({ width: 10, height: 10 })
+    svg.polyline(new Polyline({ points: [vec2(5, 5), vec2(15, 5)] }))
+    svg.path(Path.parse('M -5 -5 L -1 -1'))
+    svg.polygon(
+      new Polygon({
+        points: [vec2(5, 5), vec2(15, 5), vec2(15, 15), vec2(5, 15)],
+      }),
+    )
+    svg.circle(new Circle({ center: vec2(50, 50), radius: 1 }))
+    svg.clipToViewport()
+    assert.strictEqual(svg.children.length, 3)
+    assert.deepStrictEqual((svg.children[0] as Polyline).points, [
+      vec2(5, 5),
+      vec2(10, 5),
+    ])
+    assert.deepStrictEqual(
+      (svg.children[1] as Polygon).boundingBox.vertices(),
+      new Rectangle({ x: 5, y: 5, width: 5, height: 5 }).vertices(),
+    )
+    assert(svg.children[2] instanceof Circle)
+  })
+
+  it('applies the transforms of groups and shapes', () => {
+    const svg = new Svg({ width: 10, height: 10 })
+    const g = new Group()
+    g.translate(vec2(5, 0))
+    const line = new Polyline({ points: [vec2(0, 2), vec2(10, 2)] }).scale(2)
+    g.polyline(line)
+    svg.group(g)
+    svg.clipToViewport()
+    const [piece] = g.children
+    assert.deepStrictEqual((piece as Polyline).points, [
+      vec2(0, 2),
+      vec2(2.5, 2),
+    ])
+    assert.strictEqual(piece.transforms.length, 1)
+  })
 })
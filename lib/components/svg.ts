@@ -2,8 +2,27 @@ import { CommonAttributes, SvgColor, Tag } from './tag.js'
 import { ShapeContainer } from './group.js'
 import { Rectangle } from './rectangle.js'
 import { LinearGradient, LinearGradientAttributes } from './linear-gradient.js'
+import { RadialGradient, RadialGradientAttributes } from './radial-gradient.js'
 import { Defs } from './defs.js'
+import { ClipPath, ClipPathAttributes } from './clip-path.js'
+import { Mask, MaskAttributes } from './mask.js'
+import { Filter, FilterAttributes } from './filter.js'
+import { Pattern, PatternAttributes } from './pattern.js'
+import { Marker, MarkerAttributes } from './marker.js'
+import { SvgSymbol, SymbolAttributes } from './symbol.js'
+import { FitOptions, Group } from './group.js'
+import { Path } from './path.js'
+import { Circle } from './circle.js'
+import { Ellipse } from './ellipse.js'
+import { Line } from './line.js'
+import { Polygon } from './polygon.js'
+import { Polyline } from './polyline.js'
+import { TextNode } from './text.js'
 import { Vector2, vec2 } from '../vector2.js'
+import { omit } from '../internal.js'
+import { Matrix2D } from '../matrix2d.js'
+import { clipPolyline, clipRegion } from '../algorithms/line-clipping.js'
+import { XmlElement, XmlNode, parseXml } from '../xml.js'
 
 export type SvgAttributes = CommonAttributes & {
   /**
@@ -54,7 +73,8 @@ export type SvgAttributes = CommonAttributes & {
  * console.log(document.render());
  */
 export class Svg extends ShapeContainer {
-  #defs: LinearGradient[] = []
+  #defs: Tag[] = []
+  #background: Rectangle | null = null
   width: number
   height: number
   filenameMetadata: Record<string, string> | null
@@ -83,6 +103,44 @@ export class Svg extends ShapeContainer {
     return vec2(this.width / 2, this.height / 2)
   }
 
+  /**
+   * Parses an SVG document into the Tag tree.
+   * Known elements become instances of their classes, e.g. `<path>` becomes a `Path` and `<g>` becomes a `Group`;
+   * all other elements become a generic `Tag`.
+   * Attributes are preserved as strings, except for shape geometry which is parsed into numbers.
+   * References between elements, e.g. `fill="url(#grad)"`, are preserved as-is.
+   * `width` and `height` are taken from the viewBox when present.
+   * @example
+   *   const doc = Svg.fromString(await readFile('screenshots/sketch.svg', 'utf8'))
+   *   doc.setBackground('#fff')
+   *   await writeFile('recolored.svg', doc.render())
+   * @param {string} svgText
+   * @returns {Svg}
+   * @throws when the text is not a well-formed SVG document
+   */
+  static fromString(svgText: string): Svg {
+    const root = parseXml(svgText)
+    if (root.name !== 'svg') {
+      throw new Error(
+        `Unable to parse SVG: expected an <svg> root element but found <${root.name}>`,
+      )
+    }
+    const viewBox = root.attributes.viewBox
+      ?.trim()
+      .split(/[\s,]+/)
+      .map(Number)
+    const s = new Svg({
+      width: viewBox?.[2] ?? numberAttribute(root.attributes.width) ?? 100,
+      height: viewBox?.[3] ?? numberAttribute(root.attributes.height) ?? 100,
+    })
+    s.attributes = {
+      xmlns: 'http://www.w3.org/2000/svg',
+      ...root.attributes,
+    }
+    s.children = childrenFromXml(root)
+    return s
+  }
+
   formatFilenameMetadata(): string {
     return Object.entries(this.filenameMetadata ?? {})
       .map(([key, value]) => `${key}-${value}`)
@@ -99,6 +157,69 @@ export class Svg extends ShapeContainer {
     rect.stroke = null
     rect.fill = color
     this.children.unshift(rect)
+    this.#background = rect
+  }
+
+  /**
+   * Scales and centers all content so that it fills the viewport.
+   * Useful when the geometry is generated in arbitrary coordinates, e.g. noise space.
+   * The content is moved into a new group which is returned; the background (see `setBackground`),
+   * `<defs>` and resources are left in place.
+   * @example
+   *   const doc = new Svg({ width: 100, height: 100 })
+   *   doc.polylines(flowLines)
+   *   doc.fitContent({ padding: 5 })
+   * @param {FitOptions} [options] `mode` defaults to `contain`
+   * @returns {Group} the group containing the content
+   */
+  fitContent({ padding = 0, mode = 'contain' }: FitOptions = {}): Group {
+    const content = new Group()
+    content.numericPrecision = this.numericPrecision
+    content.colorFormat = this.colorFormat
+    const isContent = (child: Tag) =>
+      child !== this.#background &&
+      !(child instanceof Defs) &&
+      !child.isDefinable()
+    content.children = this.children.filter(isContent)
+    content.centerIn(this.#viewport(), { padding, mode })
+    this.children = [
+      ...this.children.filter((child) => !isContent(child)),
+      content,
+    ]
+    return content
+  }
+
+  /**
+   * Trims lines and polygons to the viewport, so that plotters do not draw off the page.
+   * Paths are flattened and replaced by polylines (see `Path#clip`), and polygons are replaced by their
+   * intersections with the viewport (see `Polygon#intersection`). Shapes which are entirely outside are removed.
+   * Other shapes, e.g. circles and text, are not changed.
+   * The transforms of groups and shapes are taken into account.
+   * @param {{ tolerance?: number }} [options] `tolerance` is used to flatten curves
+   */
+  clipToViewport({ tolerance = 0.1 }: { tolerance?: number } = {}): void {
+    clipChildren(
+      this,
+      Matrix2D.identity(),
+      this.#viewport().toPolygon(),
+      tolerance,
+    )
+  }
+
+  /**
+   * The area of the document which is visible, in user coordinates.
+   */
+  #viewport(): Rectangle {
+    const [x, y, width, height] =
+      typeof this.attributes.viewBox === 'string'
+        ? this.attributes.viewBox
+            .trim()
+            .split(/[\s,]+/)
+            .map(Number)
+        : []
+    return [x, y, width, height].every(Number.isFinite)
+      ? new Rectangle({ x, y, width, height })
+      : new Rectangle({ x: 0, y: 0, width: this.width, height: this.height })
   }
 
   defineLinearGradient(
@@ -118,6 +239,95 @@ export class Svg extends ShapeContainer {
     return grad
   }
 
+  defineRadialGradient(
+    props: Omit<RadialGradientAttributes, 'id' | 'numericPrecision'>,
+  ): RadialGradient {
+    const grad = new RadialGradient({
+      ...props,
+      numericPrecision: this.numericPrecision,
+    })
+    if (this.colorFormat !== undefined) {
+      grad.colorFormat = this.colorFormat
+      for (const stop of grad.children) {
+        stop.colorFormat = this.colorFormat
+      }
+    }
+    this.#defs.push(grad)
+    return grad
+  }
+
+  defineClipPath(
+    builder: (clipPath: ClipPath) => void,
+    attributes: Omit<ClipPathAttributes, 'id'> = {},
+  ): ClipPath {
+    const clip = new ClipPath(attributes)
+    clip.numericPrecision = this.numericPrecision
+    clip.colorFormat = this.colorFormat
+    builder(clip)
+    this.#defs.push(clip)
+    return clip
+  }
+
+  defineMask(
+    builder: (mask: Mask) => void,
+    attributes: Omit<MaskAttributes, 'id'> = {},
+  ): Mask {
+    const m = new Mask(attributes)
+    m.numericPrecision = this.numericPrecision
+    m.colorFormat = this.colorFormat
+    builder(m)
+    this.#defs.push(m)
+    return m
+  }
+
+  definePattern(
+    attributes: PatternAttributes,
+    builder: (pattern: Pattern) => void,
+  ): Pattern {
+    const p = new Pattern(attributes)
+    p.numericPrecision = this.numericPrecision
+    p.colorFormat = this.colorFormat
+    builder(p)
+    this.#defs.push(p)
+    return p
+  }
+
+  defineFilter(
+    builder: (filter: Filter) => void,
+    attributes: Omit<FilterAttributes, 'id'> = {},
+  ): Filter {
+    const f = new Filter(attributes)
+    f.numericPrecision = this.numericPrecision
+    f.colorFormat = this.colorFormat
+    builder(f)
+    this.#defs.push(f)
+    return f
+  }
+
+  defineMarker(
+    attributes: MarkerAttributes,
+    builder: (marker: Marker) => void,
+  ): Marker {
+    const m = new Marker(attributes)
+    m.numericPrecision = this.numericPrecision
+    m.colorFormat = this.colorFormat
+    builder(m)
+    this.#defs.push(m)
+    return m
+  }
+
+  defineSymbol(
+    builder: (symbol: SvgSymbol) => void,
+    attributes: Omit<SymbolAttributes, 'id'> = {},
+  ): SvgSymbol {
+    const s = new SvgSymbol(attributes)
+    s.numericPrecision = this.numericPrecision
+    s.colorFormat = this.colorFormat
+    builder(s)
+    this.#defs.push(s)
+    return s
+  }
+
   contains(point: Vector2): boolean {
     if (
       typeof this.attributes.viewBox !== 'string' ||
@@ -135,18 +345,103 @@ export class Svg extends ShapeContainer {
     )
   }
 
+  /**
+   * Renders the document, with the defined resources, and any resources which were assigned to attributes
+   * but never explicitly defined, in a `<defs>` element. The document itself is not changed.
+   * @returns {string}
+   */
   render(): string {
-    if (this.#defs.length > 0) {
-      const defs = new Defs()
-      for (const def of this.#defs) {
-        defs.addDefinition(def)
+    const resources = [...this.#defs]
+    for (const tag of [this, ...this.#defs]) {
+      for (const resource of tag.references()) {
+        if (!resources.includes(resource)) {
+          resources.push(resource)
+        }
       }
-      this.children.unshift(defs)
     }
-    return super.render()
+    if (resources.length === 0) {
+      return super.render()
+    }
+    const defs = new Defs()
+    defs.numericPrecision = this.numericPrecision
+    defs.colorFormat = this.colorFormat
+    for (const resource of resources) {
+      defs.addDefinition(resource)
+    }
+    const children = this.children
+    this.children = [defs, ...children]
+    try {
+      return super.render()
+    } finally {
+      this.children = children
+    }
   }
 }
 
+/**
+ * Replaces the lines and polygons in the container with the pieces inside the viewport.
+ * @param {Tag} container
+ * @param {Matrix2D} matrix maps the container's coordinates to the viewport's coordinates
+ * @param {Polygon} viewport
+ * @param {number} tolerance
+ */
+function clipChildren(
+  container: Tag,
+  matrix: Matrix2D,
+  viewport: Polygon,
+  tolerance: number,
+): void {
+  container.children = container.children.flatMap((child): Tag[] => {
+    if (child.isDefinable()) {
+      return [child]
+    }
+    const m = matrix.multiply(child.transformMatrix())
+    if (child instanceof Group) {
+      clipChildren(child, m, viewport, tolerance)
+      return [child]
+    }
+    if (
+      !(
+        child instanceof Polyline ||
+        child instanceof Path ||
+        child instanceof Line ||
+        child instanceof Polygon
+      )
+    ) {
+      return [child]
+    }
+    if (m.determinant() === 0) {
+      return []
+    }
+    // clip in the child's coordinates, so its transforms still apply to the pieces
+    const region = viewport.transformed(m.invert())
+    const pieces: Tag[] =
+      child instanceof Polygon
+        ? child.intersection(region)
+        : child instanceof Line
+          ? clipPolyline([child.start, child.end], clipRegion(region)).map(
+              ([start, end]) =>
+                new Line({
+                  ...omit(child.attributes, ['x1', 'y1', 'x2', 'y2']),
+                  start,
+                  end,
+                }),
+            )
+          : child instanceof Path
+            ? child.clip(region, { tolerance })
+            : child.clip(region)
+    for (const piece of pieces) {
+      piece.copyTransformsFrom(child)
+      if (child.attributes.transform !== undefined) {
+        piece.setAttributes({ transform: child.attributes.transform })
+      }
+      piece.numericPrecision = child.numericPrecision
+      piece.colorFormat = child.colorFormat
+    }
+    return pieces
+  })
+}
+
 export type SvgBuilder = (
   svg: Svg,
 ) =>
@@ -190,3 +485,143 @@ export async function svg(
   await builder(s)
   return s
 }
+
+// elements in which whitespace-only text is significant
+const TEXT_CONTENT_ELEMENTS = new Set(['text', 'tspan', 'textPath'])
+
+/**
+ * @param {string} [value]
+ * @returns {number | undefined} undefined when the value is missing or not numeric
+ */
+function numberAttribute(value?: string): number | undefined {
+  const n = Number.parseFloat(value ?? '')
+  return Number.isNaN(n) ? undefined : n
+}
+
+/**
+ * @param {string} [value] the `points` attribute of a polygon or polyline
+ * @returns {Vector2[]}
+ */
+function pointsAttribute(value?: string): Vector2[] {
+  const numbers = (value ?? '')
+    .trim()
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+  const points: Vector2[] = []
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push(vec2(numbers[i], numbers[i + 1]))
+  }
+  return points
+}
+
+function childrenFromXml(element: XmlElement): Tag[] {
+  return element.children
+    .filter(
+      (child) =>
+        child.type === 'element' ||
+        child.text.trim() !== '' ||
+        TEXT_CONTENT_ELEMENTS.has(element.name),
+    )
+    .map(tagFromXml)
+}
+
+function tagFromXml(node: XmlNode): Tag {
+  if (node.type === 'text') {
+    return new TextNode(node.text)
+  }
+  const tag = elementFromXml(node)
+  tag.children = childrenFromXml(node)
+  return tag
+}
+
+/**
+ * Replaces the attributes of a tag with the parsed attributes, verbatim.
+ * Used for elements whose constructors apply defaults that would change the imported document.
+ */
+function withAttributes<T extends Tag>(
+  tag: T,
+  attributes: Record<string, string>,
+): T {
+  tag.attributes = { ...attributes }
+  return tag
+}
+
+function elementFromXml({ name, attributes: attrs }: XmlElement): Tag {
+  switch (name) {
+    case 'g':
+      return new Group({ ...attrs })
+    case 'defs':
+      return withAttributes(new Defs(), attrs)
+    case 'path':
+      return Path.parse(attrs.d ?? '', omit(attrs, ['d']))
+    case 'circle':
+      return new Circle({
+        ...omit(attrs, ['cx', 'cy', 'r']),
+        x: numberAttribute(attrs.cx) ?? 0,
+        y: numberAttribute(attrs.cy) ?? 0,
+        radius: numberAttribute(attrs.r) ?? 0,
+      })
+    case 'ellipse': {
+      const rx = numberAttribute(attrs.rx) ?? numberAttribute(attrs.ry) ?? 0
+      return new Ellipse({
+        ...omit(attrs, ['cx', 'cy', 'rx', 'ry']),
+        x: numberAttribute(attrs.cx) ?? 0,
+        y: numberAttribute(attrs.cy) ?? 0,
+        rx,
+        ry: numberAttribute(attrs.ry) ?? rx,
+      })
+    }
+    case 'rect':
+      return new Rectangle({
+        ...omit(attrs, ['x', 'y', 'width', 'height', 'rx', 'ry']),
+        x: numberAttribute(attrs.x) ?? 0,
+        y: numberAttribute(attrs.y) ?? 0,
+        width: numberAttribute(attrs.width) ?? 0,
+        height: numberAttribute(attrs.height) ?? 0,
+        rx: numberAttribute(attrs.rx),
+        ry: numberAttribute(attrs.ry),
+      })
+    case 'line':
+      return new Line({
+        ...omit(attrs, ['x1', 'y1', 'x2', 'y2']),
+        start: vec2(
+          numberAttribute(attrs.x1) ?? 0,
+          numberAttribute(attrs.y1) ?? 0,
+        ),
+        end: vec2(
+          numberAttribute(attrs.x2) ?? 0,
+          numberAttribute(attrs.y2) ?? 0,
+        ),
+      })
+    case 'polygon':
+      return new Polygon({
+        ...omit(attrs, ['points']),
+        points: pointsAttribute(attrs.points),
+      })
+    case 'polyline':
+      return new Polyline({
+        ...omit(attrs, ['points']),
+        points: pointsAttribute(attrs.points),
+      })
+    // the gradient constructors require colors; they are replaced by the parsed <stop> children
+    case 'linearGradient':
+      return withAttributes(new LinearGradient({ colors: ['#000'] }), attrs)
+    case 'radialGradient':
+      return withAttributes(new RadialGradient({ colors: ['#000'] }), attrs)
+    case 'clipPath':
+      return withAttributes(new ClipPath(), attrs)
+    case 'mask':
+      return withAttributes(new Mask(), attrs)
+    case 'pattern':
+      return withAttributes(new Pattern({ width: 0, height: 0 }), attrs)
+    case 'filter':
+      return withAttributes(new Filter(), attrs)
+    case 'marker':
+      return withAttributes(new Marker(), attrs)
+    case 'symbol':
+      return withAttributes(new SvgSymbol(), attrs)
+    default:
+      return new Tag(name, { ...attrs })
+  }
+}
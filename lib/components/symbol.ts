@@ -0,0 +1,53 @@
+import { randomId } from '../internal.js'
+import { ShapeContainer } from './group.js'
+import { CommonAttributes } from './tag.js'
+
+export type SymbolAttributes = CommonAttributes & {
+  /**
+   * @default Math.random().toString(16).replace(/^0\./, '')
+   */
+  id?: string
+  viewBox?: string
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  preserveAspectRatio?: string
+}
+
+/**
+ * A `<symbol>` resource: content which is written once and instanced any number of times with `<use>`.
+ * Content is added with the same builder API as `Svg` and `Group`.
+ * Named `SvgSymbol` to avoid shadowing the global `Symbol`.
+ *
+ * @example
+ *   const hex = svg.defineSymbol((s) => {
+ *     s.polygon(new Hexagon({ center: vec2(0, 0), circumradius: 1 }))
+ *   })
+ *   for (const center of centers) {
+ *     svg.use(hex, { position: center, scale: 2 })
+ *   }
+ */
+export class SvgSymbol extends ShapeContainer {
+  constructor({ id = randomId(), ...attributes }: SymbolAttributes = {}) {
+    super('symbol', { id, ...attributes })
+  }
+
+  get id(): string {
+    return this.attributes.id
+  }
+}
+
+/**
+ * @param builder Callback that receives the symbol for building content
+ * @param attributes
+ * @returns The built SvgSymbol
+ */
+export function symbol(
+  builder: (symbol: SvgSymbol) => void,
+  attributes: SymbolAttributes = {},
+): SvgSymbol {
+  const s = new SvgSymbol(attributes)
+  builder(s)
+  return s
+}
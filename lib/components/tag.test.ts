@@ -4,6 +4,8 @@ import { ColorRgb } from '../color/rgb'
 import { hsl } from '../color/hsl'
 import { Tag } from './tag'
 import { Svg } from './svg'
+import { vec2 } from '../vector2'
+import { Matrix2D } from '../matrix2d'
 
 describe('Tag', () => {
   describe('render', () => {
@@ -34,6 +36,114 @@ describe('Tag', () => {
     })
   })
 
+  describe('resource references', () => {
+    it('renders resources as url references in reference attributes', () => {
+      const t = new Tag('rect', {
+        fill: new Tag('pattern', { id: 'p' }),
+        'clip-path': new Tag('clipPath', { id: 'c' }),
+        mask: new Tag('mask', { id: 'm' }),
+        filter: new Tag('filter', { id: 'f' }),
+        markerEnd: new Tag('marker', { id: 'e' }),
+      })
+      assert.strictEqual(
+        t.render(),
+        '<rect fill="url(#p)" clip-path="url(#c)" mask="url(#m)" filter="url(#f)" marker-end="url(#e)"></rect>',
+      )
+    })
+
+    it('assigns an ID to resources without one', () => {
+      const mask = new Tag('mask')
+      const t = new Tag('rect', { mask })
+      const actual = t.render()
+      assert.strictEqual(typeof mask.attributes.id, 'string')
+      assert.strictEqual(
+        actual,
+        `<rect mask="url(#${mask.attributes.id})"></rect>`,
+      )
+    })
+
+    it('collects references from descendants', () => {
+      const mask = new Tag('mask', { id: 'm' })
+      const filter = new Tag('filter', { id: 'f' })
+      const parent = new Tag('g', { mask })
+      parent.addChild(new Tag('rect', { filter, mask }))
+      assert.deepStrictEqual(parent.references(), [mask, filter])
+    })
+  })
+
+  describe('transforms', () => {
+    it('accumulates chained transforms into the transform attribute', () => {
+      const t = new Tag('g')
+        .translate(vec2(10, 20))
+        .rotate(Math.PI / 2, vec2(1, 2))
+        .scale(2)
+        .skewX(Math.PI / 4)
+        .skewY(-Math.PI / 4)
+        .matrix(1, 0, 0, 1, 5, 6)
+      assert.strictEqual(
+        t.render(),
+        '<g transform="translate(10 20) rotate(90 1 2) scale(2 2) skewX(45) skewY(-45) matrix(1 0 0 1 5 6)"></g>',
+      )
+    })
+
+    it('scales around an origin', () => {
+      const t = new Tag('g').scale(2, 3, vec2(5, 5))
+      assert.strictEqual(
+        t.render(),
+        '<g transform="translate(5 5) scale(2 3) translate(-5 -5)"></g>',
+      )
+    })
+
+    it('respects numericPrecision', () => {
+      const t = new Tag('g').translate(vec2(1.23456, 2)).rotate(1)
+      t.numericPrecision = 2
+      assert.strictEqual(
+        t.render(),
+        '<g transform="translate(1.23 2) rotate(57.3)"></g>',
+      )
+    })
+
+    it('prepends to an explicit transform attribute without duplicating on re-render', () => {
+      const t = new Tag('g', { transform: 'scale(2)' }).translate(vec2(1, 1))
+      t.render()
+      assert.strictEqual(
+        t.render(),
+        '<g transform="translate(1 1) scale(2)"></g>',
+      )
+    })
+
+    it('accepts a Matrix2D', () => {
+      const t = new Tag('g').matrix(new Matrix2D(1, 0, 0, 2, 3, 4))
+      assert.strictEqual(t.render(), '<g transform="matrix(1 0 0 2 3 4)"></g>')
+    })
+
+    it('combines the applied transforms into a Matrix2D', () => {
+      const m = new Tag('g').translate(vec2(10, 0)).scale(2).transformMatrix()
+      assert.deepStrictEqual(m.apply(vec2(1, 1)), vec2(12, 2))
+    })
+
+    it('does not expose the transforms by reference', () => {
+      const t = new Tag('g').translate(vec2(1, 2))
+      t.transforms.push({ name: 'scale', values: [2, 2] })
+      t.transforms[0].values[0] = 5
+      assert.strictEqual(t.render(), '<g transform="translate(1 2)"></g>')
+    })
+
+    it('prepends transforms and copies them from other tags', () => {
+      const t = new Tag('g').scale(2)
+      t.prependTransforms({ name: 'translate', values: [1, 2] })
+      assert.strictEqual(
+        t.render(),
+        '<g transform="translate(1 2) scale(2 2)"></g>',
+      )
+      const copy = new Tag('g').rotate(Math.PI).copyTransformsFrom(t)
+      assert.strictEqual(
+        copy.render(),
+        '<g transform="translate(1 2) scale(2 2)"></g>',
+      )
+    })
+  })
+
   describe('setVisualAttributes', () => {
     it('should use incoming attributes when they are not set on the target instance', () => {
       const t = new Tag('test')
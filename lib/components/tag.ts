@@ -1,9 +1,17 @@
 import { ColorHsl } from '../color/hsl.js'
 import { ColorRgb } from '../color/rgb.js'
 import { toFixedPrecision } from '../math.js'
-import type { ColorFormat } from '../types.js'
+import { Matrix2D } from '../matrix2d.js'
+import type { ColorFormat, Radians } from '../types.js'
+import { escapeXml, randomId } from '../internal.js'
 import { pickBy } from '../util.js'
+import { Vector2 } from '../vector2.js'
+import type { ClipPath } from './clip-path.js'
+import type { Filter } from './filter.js'
 import { LinearGradient } from './linear-gradient.js'
+import type { Mask } from './mask.js'
+import type { Pattern } from './pattern.js'
+import { RadialGradient } from './radial-gradient.js'
 
 export type SvgColor =
   | 'none'
@@ -12,6 +20,56 @@ export type SvgColor =
   | ColorRgb
   | ColorHsl
   | LinearGradient
+  | RadialGradient
+  | Pattern
+
+/**
+ * Tag names of "resources": elements that are defined once in the document's `<defs>`
+ * and referenced by ID from the attributes of other elements.
+ */
+const DEFINABLE_TAG_NAMES = new Set([
+  'linearGradient',
+  'radialGradient',
+  'pattern',
+  'clipPath',
+  'mask',
+  'filter',
+  'marker',
+  'symbol',
+])
+
+/**
+ * Attributes which accept a `url(#id)` reference to a resource.
+ * Both camelCase and kebab-case forms are included since either may be used in the lib.
+ */
+const REFERENCE_ATTRIBUTES = new Set([
+  'fill',
+  'stroke',
+  'clip-path',
+  'clipPath',
+  'mask',
+  'filter',
+  'marker-start',
+  'markerStart',
+  'marker-mid',
+  'markerMid',
+  'marker-end',
+  'markerEnd',
+])
+
+/**
+ * Attributes which accept a `#id` reference to a resource, e.g. `<use href="#id">`.
+ */
+const HREF_ATTRIBUTES = new Set(['href', 'xlink:href'])
+
+/**
+ * A single SVG transform function, e.g. `translate(10 20)`.
+ * Values are stored in SVG units (i.e. degrees for angles) so they can be rendered directly.
+ */
+export type TransformFunction = {
+  name: 'translate' | 'rotate' | 'scale' | 'skewX' | 'skewY' | 'matrix'
+  values: number[]
+}
 
 export type CommonAttributes = {
   stroke?: SvgColor
@@ -35,6 +93,7 @@ export class Tag {
   numericPrecision: number = Infinity
 
   #colorFormat: ColorFormat | undefined
+  #transforms: TransformFunction[] = []
 
   /**
    * The color format for the tag. When undefined, colors use their native format
@@ -84,6 +143,18 @@ export class Tag {
     this.setAttributes({ 'stroke-width': value })
   }
 
+  set clipPath(value: ClipPath | string | null) {
+    this.setAttributes({ 'clip-path': value === null ? 'none' : value })
+  }
+
+  set mask(value: Mask | string | null) {
+    this.setAttributes({ mask: value === null ? 'none' : value })
+  }
+
+  set filter(value: Filter | string | null) {
+    this.setAttributes({ filter: value === null ? 'none' : value })
+  }
+
   /**
    * @param {*} value
    * @param {*} key
@@ -96,6 +167,166 @@ export class Tag {
     )
   }
 
+  /**
+   * The transform functions that have been applied with `translate`, `rotate`, `scale`, `skewX`, `skewY` and `matrix`,
+   * in the order they were applied.
+   * Like the SVG `transform` attribute, the last function is applied to the geometry first.
+   * Returns a copy; use the transform methods, `prependTransforms` or `copyTransformsFrom` to change them.
+   */
+  get transforms(): TransformFunction[] {
+    return this.#transforms.map(({ name, values }) => ({
+      name,
+      values: [...values],
+    }))
+  }
+
+  /**
+   * Inserts transform functions before the existing ones, so they are applied to the geometry last.
+   * @param {TransformFunction[]} functions
+   * @returns {this}
+   */
+  prependTransforms(...functions: TransformFunction[]): this {
+    this.#transforms.unshift(
+      ...functions.map(({ name, values }) => ({ name, values: [...values] })),
+    )
+    return this
+  }
+
+  /**
+   * Replaces the transform functions with those of another tag.
+   * @param {Tag} other
+   * @returns {this}
+   */
+  copyTransformsFrom(other: Tag): this {
+    this.#transforms = other.transforms
+    return this
+  }
+
+  /**
+   * @param {Vector2} offset
+   * @returns {this}
+   */
+  translate(offset: Vector2): this {
+    this.#transforms.push({ name: 'translate', values: [offset.x, offset.y] })
+    return this
+  }
+
+  /**
+   * @param {Radians} angle
+   * @param {Vector2} [origin] the point to rotate around. Defaults to the origin of the coordinate system.
+   * @returns {this}
+   */
+  rotate(angle: Radians, origin?: Vector2): this {
+    const degrees = (angle * 180) / Math.PI
+    this.#transforms.push({
+      name: 'rotate',
+      values: origin ? [degrees, origin.x, origin.y] : [degrees],
+    })
+    return this
+  }
+
+  /**
+   * @param {number} sx
+   * @param {number} [sy] defaults to `sx` if omitted.
+   * @param {Vector2} [origin] the point to scale from. Defaults to the origin of the coordinate system.
+   * @returns {this}
+   */
+  scale(sx: number, sy: number = sx, origin?: Vector2): this {
+    if (origin) {
+      this.translate(origin)
+      this.#transforms.push({ name: 'scale', values: [sx, sy] })
+      this.translate(origin.multiply(-1))
+    } else {
+      this.#transforms.push({ name: 'scale', values: [sx, sy] })
+    }
+    return this
+  }
+
+  /**
+   * @param {Radians} angle
+   * @returns {this}
+   */
+  skewX(angle: Radians): this {
+    this.#transforms.push({ name: 'skewX', values: [(angle * 180) / Math.PI] })
+    return this
+  }
+
+  /**
+   * @param {Radians} angle
+   * @returns {this}
+   */
+  skewY(angle: Radians): this {
+    this.#transforms.push({ name: 'skewY', values: [(angle * 180) / Math.PI] })
+    return this
+  }
+
+  /**
+   * Applies an arbitrary affine transform, `[a c e; b d f; 0 0 1]`
+   * @returns {this}
+   */
+  matrix(matrix: Matrix2D): this
+  matrix(a: number, b: number, c: number, d: number, e: number, f: number): this
+  matrix(
+    aOrMatrix: number | Matrix2D,
+    b?: number,
+    c?: number,
+    d?: number,
+    e?: number,
+    f?: number,
+  ): this {
+    const values =
+      aOrMatrix instanceof Matrix2D
+        ? [
+            aOrMatrix.a,
+            aOrMatrix.b,
+            aOrMatrix.c,
+            aOrMatrix.d,
+            aOrMatrix.e,
+            aOrMatrix.f,
+          ]
+        : [aOrMatrix, b ?? 0, c ?? 0, d ?? 1, e ?? 0, f ?? 0]
+    this.#transforms.push({ name: 'matrix', values })
+    return this
+  }
+
+  /**
+   * The combined matrix of the applied transform functions.
+   * Note: a `transform` attribute that was set directly is not included.
+   * @returns {Matrix2D}
+   */
+  transformMatrix(): Matrix2D {
+    return Matrix2D.fromTransforms(this.#transforms)
+  }
+
+  /**
+   * @protected
+   * Transform functions which are part of the shape's own geometry, e.g. the rotation of an ellipse.
+   * They are rendered last, so they apply to the geometry first, and are not included in `transformMatrix`.
+   * @returns {TransformFunction[]}
+   */
+  geometryTransforms(): TransformFunction[] {
+    return []
+  }
+
+  /**
+   * Combines the applied transform functions with any `transform` attribute that was set directly,
+   * followed by the geometry transforms.
+   * The applied transform functions come first, so they apply "outside" of the `transform` attribute.
+   * @returns {string | undefined}
+   */
+  #formatTransform(): string | undefined {
+    const format = ({ name, values }: TransformFunction) =>
+      `${name}(${values
+        .map((v) => toFixedPrecision(v, this.numericPrecision))
+        .join(' ')})`
+    const functions = this.#transforms.map(format)
+    if (typeof this.attributes.transform === 'string') {
+      functions.push(this.attributes.transform)
+    }
+    functions.push(...this.geometryTransforms().map(format))
+    return functions.length > 0 ? functions.join(' ') : undefined
+  }
+
   /**
    * @protected
    * Returns an object containing the core "visual styles" that should be inherited
@@ -156,20 +387,91 @@ export class Tag {
     return child
   }
 
+  /**
+   * Resources (gradients, patterns, clip paths, masks, filters, markers, symbols)
+   * are rendered in `<defs>` and referenced by ID.
+   * @returns {boolean}
+   */
+  isDefinable(): boolean {
+    return DEFINABLE_TAG_NAMES.has(this.tagName)
+  }
+
+  /**
+   * Returns the ID of a resource, assigning a random one if it does not have one yet.
+   * @returns {string}
+   */
+  #referenceId(resource: Tag): string {
+    if (typeof resource.attributes.id !== 'string') {
+      resource.setAttributes({ id: randomId() })
+    }
+    return resource.attributes.id
+  }
+
+  /**
+   * Returns all resources that are referenced by this tag or any of its descendants,
+   * including resources referenced by those resources, in document order.
+   * This is used by `Svg` to register resources in `<defs>` which were not explicitly defined.
+   * @returns {Tag[]}
+   */
+  references(): Tag[] {
+    const found = new Set<Tag>()
+    const visit = (tag: Tag) => {
+      for (const [key, value] of Object.entries(tag.attributes)) {
+        if (
+          value instanceof Tag &&
+          value.isDefinable() &&
+          (REFERENCE_ATTRIBUTES.has(key) || HREF_ATTRIBUTES.has(key)) &&
+          !found.has(value)
+        ) {
+          found.add(value)
+          visit(value)
+        }
+      }
+      for (const child of tag.children) {
+        visit(child)
+      }
+    }
+    visit(this)
+    return Array.from(found)
+  }
+
   #formatAttributes(): string {
-    return Object.entries(pickBy((v) => v !== undefined, this.attributes))
+    const attributes: Record<string, any> = {
+      ...this.attributes,
+      transform: this.#formatTransform(),
+    }
+    return Object.entries(pickBy((v) => v !== undefined, attributes))
       .map(([key, value]) => {
         const normalizeKey = this.#normalizeKey(key)
+        if (
+          value instanceof Tag &&
+          value.isDefinable() &&
+          REFERENCE_ATTRIBUTES.has(key)
+        ) {
+          return `${normalizeKey}="url(#${this.#referenceId(value)})"`
+        }
+        if (
+          value instanceof Tag &&
+          value.isDefinable() &&
+          HREF_ATTRIBUTES.has(key)
+        ) {
+          return `${normalizeKey}="#${this.#referenceId(value)}"`
+        }
         if (typeof value === 'number') {
           return `${normalizeKey}="${toFixedPrecision(
             value,
             this.numericPrecision,
           )}"`
         }
+        if (Array.isArray(value) && value.every((v) => typeof v === 'number')) {
+          return `${normalizeKey}="${value
+            .map((v) => toFixedPrecision(v, this.numericPrecision))
+            .join(' ')}"`
+        }
         if (value instanceof ColorRgb || value instanceof ColorHsl) {
           return `${normalizeKey}="${value.toString(this.#colorFormat)}"`
         }
-        return `${normalizeKey}="${value}"`
+        return `${normalizeKey}="${escapeXml(String(value))}"`
       })
       .join(' ')
   }
@@ -189,10 +491,21 @@ export class Tag {
       'stopOpacity',
       'clipPath',
       'clipRule',
+      'markerStart',
+      'markerMid',
+      'markerEnd',
       'colorInterpolation',
       'colorInterpolationFilters',
+      'floodColor',
+      'floodOpacity',
+      'lightingColor',
       'fontFamily',
       'fontSize',
+      'fontWeight',
+      'fontStyle',
+      'textAnchor',
+      'dominantBaseline',
+      'letterSpacing',
     ])
 
     if (kebabCaseKeys.has(key)) {
@@ -205,23 +518,6 @@ export class Tag {
    * @returns {string}
    */
   render(): string {
-    // this would be much more elegant as `this.attributes.fill instanceof LinearGradient`,
-    // but doing so would result in a circular dependency that I don't want to resolve
-    // with additional abstractions
-    if (
-      this.attributes.fill instanceof Tag &&
-      this.attributes.fill.tagName === 'linearGradient' &&
-      'id' in this.attributes.fill
-    ) {
-      this.attributes.fill = `url(#${this.attributes.fill.id})`
-    }
-    if (
-      this.attributes.stroke instanceof Tag &&
-      this.attributes.stroke.tagName === 'linearGradient' &&
-      'id' in this.attributes.stroke
-    ) {
-      this.attributes.stroke = `url(#${this.attributes.stroke.id})`
-    }
     return [
       `<${this.tagName} ${this.#formatAttributes()}>`,
       this.children.map((child) => child.render()).join(''),
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Text, text } from './text'
+import { Svg } from './svg'
+import { vec2 } from '../vector2'
+
+describe('text', () => {
+  it('returns a Text', () => {
+    assert(text({ content: 'hi' }) instanceof Text)
+  })
+
+  it('can accept content and a position', () => {
+    const t = text('hi', vec2(3, 4))
+    assert.strictEqual(t.content, 'hi')
+    assert.strictEqual(t.position.x, 3)
+    assert.strictEqual(t.position.y, 4)
+  })
+
+  it('can accept a builder', () => {
+    const t = text((t) => {
+      t.position = vec2(1, 2)
+      t.content = 'hi'
+      t.fontSize = 4
+    })
+    assert.strictEqual(t.render(), '<text x="1" y="2" font-size="4">hi</text>')
+  })
+})
+
+describe('Text', () => {
+  describe('render', () => {
+    it('renders font attributes in kebab-case', () => {
+      const t = new Text({
+        position: vec2(10, 20),
+        content: 'hello',
+        fontFamily: 'monospace',
+        fontSize: 5,
+        fontWeight: 'bold',
+        textAnchor: 'middle',
+        dominantBaseline: 'central',
+      })
+      assert.strictEqual(
+        t.render(),
+        '<text x="10" y="20" font-family="monospace" font-size="5" font-weight="bold" text-anchor="middle" dominant-baseline="central">hello</text>',
+      )
+    })
+
+    it('escapes content', () => {
+      const t = new Text({ content: '<b> & "c"' })
+      assert.strictEqual(
+        t.render(),
+        '<text x="0" y="0">&lt;b&gt; &amp; &quot;c&quot;</text>',
+      )
+    })
+
+    it('escapes attribute values', () => {
+      const t = new Text({ content: 'a', fontFamily: '"Fira Code", mono' })
+      assert.ok(
+        t.render().includes('font-family="&quot;Fira Code&quot;, mono"'),
+      )
+    })
+
+    it('renders multi-line content as tspans', () => {
+      const t = new Text({ position: vec2(1.234, 2), content: 'one\ntwo' })
+      t.numericPrecision = 1
+      assert.strictEqual(
+        t.render(),
+        '<text x="1.2" y="2"><tspan x="1.2" dy="0">one</tspan><tspan x="1.2" dy="1.2em">two</tspan></text>',
+      )
+    })
+  })
+
+  it('can be added to an Svg', () => {
+    const svg = new Svg({})
+    svg.fill = '#000'
+    svg.text((t) => {
+      t.content = 'hi'
+    })
+    assert.ok(svg.render().includes('<text x="0" y="0" fill="#000">hi</text>'))
+  })
+})
@@ -0,0 +1,182 @@
+import { error, escapeXml } from '../internal.js'
+import { Vector2, vec2 } from '../vector2.js'
+import { CommonAttributes, Tag } from './tag.js'
+
+export type TextAnchor = 'start' | 'middle' | 'end'
+
+export type DominantBaseline =
+  | 'auto'
+  | 'text-bottom'
+  | 'alphabetic'
+  | 'ideographic'
+  | 'middle'
+  | 'central'
+  | 'mathematical'
+  | 'hanging'
+  | 'text-top'
+
+export type TextAttributes = CommonAttributes & {
+  x?: number
+  y?: number
+  position?: Vector2
+  /**
+   * The text to render. Newlines (`\n`) split the content into multiple `<tspan>` lines.
+   * @default ''
+   */
+  content?: string
+  fontFamily?: string
+  fontSize?: number
+  fontWeight?: number | string
+  textAnchor?: TextAnchor
+  dominantBaseline?: DominantBaseline
+  /**
+   * Distance between lines of multi-line content, in `em` units.
+   * @default 1.2
+   */
+  lineHeight?: number
+}
+
+/**
+ * A raw text node. Renders its (escaped) content with no surrounding tag.
+ */
+export class TextNode extends Tag {
+  content: string
+
+  constructor(content: string) {
+    super('#text')
+    this.content = content
+  }
+
+  render(): string {
+    return escapeXml(this.content)
+  }
+}
+
+/**
+ * @example
+ *   const t = text((t) => {
+ *     t.position = svg.center
+ *     t.content = 'Hello\nWorld'
+ *     t.fontFamily = 'monospace'
+ *     t.fontSize = 4
+ *     t.textAnchor = 'middle'
+ *   })
+ * @example
+ *   const t = text({ position: vec2(10, 10), content: 'Hello', fontSize: 4 })
+ */
+export class Text extends Tag {
+  #position: Vector2
+  #content: string
+  #lineHeight: number
+
+  constructor({
+    x,
+    y,
+    position,
+    content = '',
+    lineHeight = 1.2,
+    ...attributes
+  }: TextAttributes = {}) {
+    const pos = position ?? vec2(x ?? 0, y ?? 0)
+    super('text', {
+      x: pos.x,
+      y: pos.y,
+      ...attributes,
+    })
+    this.#position = pos
+    this.#content = content
+    this.#lineHeight = lineHeight
+  }
+
+  set position(value: Vector2) {
+    this.setAttributes({ x: value.x, y: value.y })
+    this.#position = value
+  }
+  get position(): Vector2 {
+    return this.#position
+  }
+
+  set content(value: string) {
+    this.#content = value
+  }
+  get content(): string {
+    return this.#content
+  }
+
+  set lineHeight(value: number) {
+    this.#lineHeight = value
+  }
+  get lineHeight(): number {
+    return this.#lineHeight
+  }
+
+  set fontFamily(value: string) {
+    this.setAttributes({ fontFamily: value })
+  }
+
+  set fontSize(value: number) {
+    this.setAttributes({ fontSize: value })
+  }
+
+  set fontWeight(value: number | string) {
+    this.setAttributes({ fontWeight: value })
+  }
+
+  set textAnchor(value: TextAnchor) {
+    this.setAttributes({ textAnchor: value })
+  }
+
+  set dominantBaseline(value: DominantBaseline) {
+    this.setAttributes({ dominantBaseline: value })
+  }
+
+  /**
+   * The content split into lines.
+   * @returns {string[]}
+   */
+  lines(): string[] {
+    return this.#content.split(/\r?\n/)
+  }
+
+  render(): string {
+    const lines = this.lines()
+    if (lines.length === 1) {
+      this.children = [new TextNode(lines[0])]
+    } else {
+      this.children = lines.map((line, i) => {
+        const span = new Tag('tspan', {
+          x: this.#position.x,
+          dy: i === 0 ? 0 : `${this.#lineHeight}em`,
+        })
+        span.numericPrecision = this.numericPrecision
+        span.children = [new TextNode(line)]
+        return span
+      })
+    }
+    return super.render()
+  }
+}
+
+export function text(attrs: TextAttributes): Text
+export function text(content: string, position: Vector2): Text
+export function text(builder: (t: Text) => void): Text
+export function text(attrsOrBuilder: TextAttributes | ((t: Text) => void)): Text
+export function text(
+  attrsOrBuilderOrContent: TextAttributes | string | ((t: Text) => void),
+  position?: Vector2,
+): Text {
+  if (typeof attrsOrBuilderOrContent === 'function') {
+    const t = new Text()
+    attrsOrBuilderOrContent(t)
+    return t
+  }
+  if (typeof attrsOrBuilderOrContent === 'object') {
+    return new Text(attrsOrBuilderOrContent)
+  }
+  if (typeof attrsOrBuilderOrContent === 'string' && position !== undefined) {
+    return new Text({ content: attrsOrBuilderOrContent, position })
+  }
+  return error(
+    `Unable to construct text from "${attrsOrBuilderOrContent}, ${position}"`,
+  )
+}
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Use, use } from './use'
+import { SvgSymbol, symbol } from './symbol'
+import { Svg } from './svg'
+import { vec2 } from '../vector2'
+
+describe('use', () => {
+  const s = new SvgSymbol({ id: 'sym' })
+
+  it('references the symbol by ID', () => {
+    const u = use(s)
+    assert(u instanceof Use)
+    assert.strictEqual(u.render(), '<use href="#sym"></use>')
+  })
+
+  it('accepts a symbol ID', () => {
+    assert.strictEqual(use('sym').render(), '<use href="#sym"></use>')
+    assert.strictEqual(use('#sym').render(), '<use href="#sym"></use>')
+  })
+
+  it('renders position, rotation and scale as a transform', () => {
+    const u = use(s, {
+      position: vec2(10.1234, 20),
+      rotation: Math.PI / 2,
+      scale: vec2(2, 3),
+      fill: '#f00',
+    })
+    u.numericPrecision = 2
+    assert.strictEqual(
+      u.render(),
+      '<use href="#sym" fill="#f00" transform="translate(10.12 20) rotate(90) scale(2 3)"></use>',
+    )
+  })
+})
+
+describe('symbol', () => {
+  it('builds content with the shape builder API', () => {
+    const s = symbol(
+      (s) => {
+        s.circle({ x: 0, y: 0, radius: 1 })
+      },
+      { id: 'sym', viewBox: '-1 -1 2 2' },
+    )
+    assert.strictEqual(
+      s.render(),
+      '<symbol id="sym" viewBox="-1 -1 2 2"><circle cx="0" cy="0" r="1"></circle></symbol>',
+    )
+  })
+})
+
+describe('Svg#defineSymbol and Svg#use', () => {
+  it('writes the symbol once and instances it', () => {
+    const svg = new Svg({})
+    const s = svg.defineSymbol((s) => {
+      s.circle({ x: 0, y: 0, radius: 1 })
+    })
+    svg.use(s, { position: vec2(1, 1) })
+    svg.use(s, { position: vec2(2, 2), stroke: '#000' })
+    const actual = svg.render()
+    assert.strictEqual(actual.match(/<symbol/g)?.length, 1)
+    assert.strictEqual(actual.match(/<circle/g)?.length, 1)
+    assert.ok(
+      actual.includes(
+        `<use href="#${s.id}" transform="translate(1 1)"></use><use href="#${s.id}" stroke="#000" transform="translate(2 2)"></use>`,
+      ),
+    )
+  })
+
+  it('registers symbols that were not explicitly defined', () => {
+    const svg = new Svg({})
+    const s = symbol((s) => {
+      s.circle({ x: 0, y: 0, radius: 1 })
+    })
+    svg.group((g) => {
+      g.use(s)
+    })
+    assert.ok(svg.render().includes(`<defs ><symbol id="${s.id}">`))
+  })
+})
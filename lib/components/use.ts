@@ -0,0 +1,66 @@
+import { Radians } from '../types.js'
+import { Vector2 } from '../vector2.js'
+import type { SvgSymbol } from './symbol.js'
+import { CommonAttributes, Tag } from './tag.js'
+
+export type UseAttributes = CommonAttributes & {
+  /**
+   * Where the origin of the symbol is placed
+   * @default vec2(0, 0)
+   */
+  position?: Vector2
+  /**
+   * Rotation around the symbol's origin, in radians
+   * @default 0
+   */
+  rotation?: Radians
+  /**
+   * Uniform scale when a number, or (x, y) scale when a Vector2
+   * @default 1
+   */
+  scale?: number | Vector2
+  width?: number
+  height?: number
+}
+
+/**
+ * A `<use>` element, which instances a `SvgSymbol`.
+ * The symbol is scaled, then rotated, then translated to `position`.
+ */
+export class Use extends Tag {
+  constructor(
+    symbol: SvgSymbol | string,
+    { position, rotation = 0, scale = 1, ...attributes }: UseAttributes = {},
+  ) {
+    super('use', {
+      href:
+        typeof symbol === 'string' && !symbol.startsWith('#')
+          ? `#${symbol}`
+          : symbol,
+      ...attributes,
+    })
+    if (position !== undefined) {
+      this.translate(position)
+    }
+    if (rotation !== 0) {
+      this.rotate(rotation)
+    }
+    if (scale instanceof Vector2) {
+      this.scale(scale.x, scale.y)
+    } else if (scale !== 1) {
+      this.scale(scale)
+    }
+  }
+}
+
+/**
+ * @param {SvgSymbol | string} symbol the symbol, or the ID of the symbol, to instance
+ * @param {UseAttributes} [attributes]
+ * @returns {Use}
+ */
+export function use(
+  symbol: SvgSymbol | string,
+  attributes: UseAttributes = {},
+): Use {
+  return new Use(symbol, attributes)
+}
@@ -0,0 +1,133 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import {
+  ArcCurve,
+  CubicBezierCurve,
+  LineCurve,
+  QuadraticBezierCurve,
+} from './curves'
+import { vec2 } from './vector2'
+import { assertVectorClose } from './test-helpers'
+
+describe('LineCurve', () => {
+  it('evaluates points, length and tangent', () => {
+    const l = new LineCurve(vec2(0, 0), vec2(3, 4))
+    assert.strictEqual(l.length(), 5)
+    assertVectorClose(l.pointAt(0.5), vec2(1.5, 2))
+    assertVectorClose(l.tangentAt(0.2), vec2(0.6, 0.8))
+    assertVectorClose(l.normalAt(0.2), vec2(-0.8, 0.6))
+    assert.strictEqual(l.tAtLength(2.5), 0.5)
+  })
+})
+
+describe('QuadraticBezierCurve', () => {
+  it('evaluates points', () => {
+    const q = new QuadraticBezierCurve(vec2(0, 0), vec2(1, 2), vec2(2, 0))
+    assertVectorClose(q.pointAt(0), vec2(0, 0))
+    assertVectorClose(q.pointAt(0.5), vec2(1, 1))
+    assertVectorClose(q.pointAt(1), vec2(2, 0))
+  })
+
+  it('has the length of a straight line when the control point is collinear', () => {
+    const q = new QuadraticBezierCurve(vec2(0, 0), vec2(5, 0), vec2(10, 0))
+    assert(Math.abs(q.length() - 10) < 1e-9)
+  })
+})
+
+describe('CubicBezierCurve', () => {
+  // a cubic approximation of a quarter circle
+  const k = 0.5522847498
+  const c = new CubicBezierCurve(vec2(1, 0), vec2(1, k), vec2(k, 1), vec2(0, 1))
+
+  it('evaluates points', () => {
+    assertVectorClose(c.pointAt(0), vec2(1, 0))
+    assertVectorClose(c.pointAt(1), vec2(0, 1))
+    assert(Math.abs(c.pointAt(0.5).length() - 1) < 1e-3)
+  })
+
+  it('measures length', () => {
+    assert(Math.abs(c.length() - Math.PI / 2) < 1e-3)
+  })
+
+  it('inverts arc length', () => {
+    const t = c.tAtLength(0.7)
+    assert(Math.abs(c.length(t) - 0.7) < 1e-8)
+  })
+
+  it('returns a tangent where the derivative vanishes', () => {
+    const degenerate = new CubicBezierCurve(
+      vec2(0, 0),
+      vec2(0, 0),
+      vec2(1, 1),
+      vec2(1, 1),
+    )
+    assertVectorClose(degenerate.tangentAt(0), vec2(1, 1).normalize(), 1e-6)
+  })
+})
+
+describe('ArcCurve', () => {
+  it('converts to a center parameterization', () => {
+    const a = new ArcCurve(vec2(10, 0), 10, 10, 0, false, true, vec2(-10, 0))
+    assertVectorClose(a.center, vec2(0, 0))
+    assertVectorClose(a.pointAt(0.5), vec2(0, 10))
+    assert(Math.abs(a.length() - Math.PI * 10) < 1e-9)
+  })
+
+  it('respects the sweep and large arc flags', () => {
+    const small = new ArcCurve(vec2(1, 0), 1, 1, 0, false, false, vec2(0, 1))
+    const large = new ArcCurve(vec2(1, 0), 1, 1, 0, true, false, vec2(0, 1))
+    assert(Math.abs(small.length() - Math.PI / 2) < 1e-9)
+    assert(Math.abs(large.length() - (3 * Math.PI) / 2) < 1e-9)
+  })
+
+  it('scales up radii that are too small', () => {
+    const a = new ArcCurve(vec2(0, 0), 1, 1, 0, false, true, vec2(10, 0))
+    assert.strictEqual(a.rx, 5)
+    assertVectorClose(a.center, vec2(5, 0))
+  })
+
+  it('supports rotated ellipses', () => {
+    const a = new ArcCurve(
+      vec2(0, 0),
+      2,
+      1,
+      Math.PI / 2,
+      false,
+      true,
+      vec2(0, 4),
+    )
+    assertVectorClose(a.center, vec2(0, 2))
+    assertVectorClose(a.pointAt(1), vec2(0, 4))
+    // a positive sweep is clockwise on screen
+    assertVectorClose(a.pointAt(0.5), vec2(1, 2))
+  })
+})
+
+describe('Curve#boundingBox', () => {
+  it('includes the extrema of quadratic curves', () => {
+    const q = new QuadraticBezierCurve(vec2(0, 0), vec2(5, 10), vec2(10, 0))
+    const box = q.boundingBox
+    assert.deepStrictEqual([box.x, box.y, box.width, box.height], [0, 0, 10, 5])
+  })
+
+  it('includes the extrema of cubic curves', () => {
+    const c = new CubicBezierCurve(
+      vec2(0, 0),
+      vec2(0, 10),
+      vec2(10, 10),
+      vec2(10, 0),
+    )
+    const box = c.boundingBox
+    assert.strictEqual(box.width, 10)
+    assert(Math.abs(box.height - 7.5) < 1e-9)
+  })
+
+  it('includes the extrema of arcs', () => {
+    const a = new ArcCurve(vec2(10, 0), 10, 10, 0, false, true, vec2(-10, 0))
+    const box = a.boundingBox
+    assert(Math.abs(box.x + 10) < 1e-9)
+    assert(Math.abs(box.y) < 1e-9)
+    assert(Math.abs(box.width - 20) < 1e-9)
+    assert(Math.abs(box.height - 10) < 1e-9)
+  })
+})
@@ -0,0 +1,486 @@
+import { Rectangle } from './components/rectangle.js'
+import { distanceToSegment } from './math.js'
+import { ClosedInterval, Radians } from './types.js'
+import { Vector2, vec2 } from './vector2.js'
+
+// 5-point Gauss-Legendre quadrature on [-1, 1]
+const GAUSS_LEGENDRE = [
+  [0, 0.5688888888888889],
+  [-0.5384693101056831, 0.4786286704993665],
+  [0.5384693101056831, 0.4786286704993665],
+  [-0.906179845938664, 0.2369268850561891],
+  [0.906179845938664, 0.2369268850561891],
+] as const
+
+// number of intervals the quadrature is applied to; higher is more accurate for sharply bending curves
+const QUADRATURE_INTERVALS = 16
+
+// curves are always split at least 2^MIN_FLATTEN_DEPTH times, so that e.g. S-shapes and closed arcs are not mistaken for straight lines
+const MIN_FLATTEN_DEPTH = 2
+const MAX_FLATTEN_DEPTH = 16
+
+/**
+ * A parametric curve between two points, defined for t in [0, 1].
+ * Curves are the geometry of the segments of a `Path`; see `Path#segments`.
+ */
+export abstract class Curve {
+  abstract get start(): Vector2
+  abstract get end(): Vector2
+
+  /**
+   * @param {ClosedInterval<0, 1>} t
+   * @returns {Vector2}
+   */
+  abstract pointAt(t: ClosedInterval<0, 1>): Vector2
+
+  /**
+   * The first derivative of the curve with respect to t.
+   * @param {ClosedInterval<0, 1>} t
+   * @returns {Vector2}
+   */
+  abstract derivativeAt(t: ClosedInterval<0, 1>): Vector2
+
+  /**
+   * The unit tangent at t, in the direction of travel
+   * @param {ClosedInterval<0, 1>} t
+   * @returns {Vector2}
+   */
+  tangentAt(t: ClosedInterval<0, 1>): Vector2 {
+    const derivative = this.derivativeAt(t)
+    if (derivative.length() > 1e-12) {
+      return derivative.normalize()
+    }
+    // the derivative vanishes where control points coincide with end points; nudge towards the interior
+    const nudged = this.derivativeAt(t < 0.5 ? t + 1e-6 : t - 1e-6)
+    return nudged.length() > 0
+      ? nudged.normalize()
+      : this.end.subtract(this.start).normalize()
+  }
+
+  /**
+   * The unit normal at t: the tangent rotated by 90°,
+   * which points to the right of the direction of travel on screen (y-down).
+   * @param {ClosedInterval<0, 1>} t
+   * @returns {Vector2}
+   */
+  normalAt(t: ClosedInterval<0, 1>): Vector2 {
+    const tangent = this.tangentAt(t)
+    return vec2(-tangent.y, tangent.x)
+  }
+
+  /**
+   * The parameters in (0, 1) at which the curve turns around in x or y,
+   * i.e. where the x or y component of the derivative is zero.
+   * @returns {number[]}
+   */
+  extrema(): number[] {
+    return []
+  }
+
+  /**
+   * The exact axis-aligned bounding box of the curve
+   * @returns {Rectangle}
+   */
+  get boundingBox(): Rectangle {
+    return Rectangle.fromPoints(
+      [0, 1, ...this.extrema()].map((t) => this.pointAt(t)),
+    )
+  }
+
+  /**
+   * The arc length of the curve from 0 to t
+   * @param {ClosedInterval<0, 1>} [t=1]
+   * @returns {number}
+   */
+  length(t: ClosedInterval<0, 1> = 1): number {
+    const step = t / QUADRATURE_INTERVALS
+    let sum = 0
+    for (let i = 0; i < QUADRATURE_INTERVALS; i++) {
+      const mid = (i + 0.5) * step
+      for (const [node, weight] of GAUSS_LEGENDRE) {
+        sum += weight * this.derivativeAt(mid + (node * step) / 2).length()
+      }
+    }
+    return (sum * step) / 2
+  }
+
+  /**
+   * Approximates the curve with straight line segments.
+   * The curve is subdivided until every segment deviates from the curve by at most `tolerance`.
+   * @param {number} tolerance the maximum distance between the curve and the line segments
+   * @returns {Vector2[]} the points of the line segments, including the start and end of the curve
+   */
+  flatten(tolerance: number): Vector2[] {
+    if (!(tolerance > 0)) {
+      throw new Error(`Tolerance must be greater than 0, received ${tolerance}`)
+    }
+    const points = [this.start]
+    const subdivide = (
+      t0: number,
+      start: Vector2,
+      t1: number,
+      end: Vector2,
+      depth: number,
+    ) => {
+      const t = (t0 + t1) / 2
+      const mid = this.pointAt(t)
+      const flat =
+        depth >= MIN_FLATTEN_DEPTH &&
+        [mid, this.pointAt((t0 + t) / 2), this.pointAt((t + t1) / 2)].every(
+          (point) => distanceToSegment(point, start, end) <= tolerance,
+        )
+      if (flat || depth >= MAX_FLATTEN_DEPTH) {
+        points.push(end)
+        return
+      }
+      subdivide(t0, start, t, mid, depth + 1)
+      subdivide(t, mid, t1, end, depth + 1)
+    }
+    subdivide(0, this.start, 1, this.end, 0)
+    return points
+  }
+
+  /**
+   * Finds the parameter t at which the arc length from the start of the curve equals `distance`.
+   * @param {number} distance
+   * @returns {ClosedInterval<0, 1>}
+   */
+  tAtLength(distance: number): ClosedInterval<0, 1> {
+    const total = this.length()
+    if (distance <= 0 || total === 0) {
+      return 0
+    }
+    if (distance >= total) {
+      return 1
+    }
+    // Newton's method, falling back to bisection when a step leaves the bracket
+    let low = 0
+    let high = 1
+    let t = distance / total
+    for (let i = 0; i < 30; i++) {
+      const error = this.length(t) - distance
+      if (Math.abs(error) < 1e-9 * total) {
+        break
+      }
+      if (error > 0) {
+        high = t
+      } else {
+        low = t
+      }
+      const speed = this.derivativeAt(t).length()
+      const next = speed > 0 ? t - error / speed : Number.NaN
+      t = next > low && next < high ? next : (low + high) / 2
+    }
+    return t
+  }
+}
+
+export class LineCurve extends Curve {
+  #start: Vector2
+  #end: Vector2
+
+  constructor(start: Vector2, end: Vector2) {
+    super()
+    this.#start = start
+    this.#end = end
+  }
+
+  get start(): Vector2 {
+    return this.#start
+  }
+
+  get end(): Vector2 {
+    return this.#end
+  }
+
+  pointAt(t: ClosedInterval<0, 1>): Vector2 {
+    return Vector2.mix(this.#start, this.#end, t)
+  }
+
+  derivativeAt(_t: ClosedInterval<0, 1>): Vector2 {
+    return this.#end.subtract(this.#start)
+  }
+
+  length(t: ClosedInterval<0, 1> = 1): number {
+    return this.#start.distanceTo(this.#end) * t
+  }
+
+  tAtLength(distance: number): ClosedInterval<0, 1> {
+    const total = this.length()
+    return total === 0 ? 0 : Math.min(1, Math.max(0, distance / total))
+  }
+
+  flatten(_tolerance: number): Vector2[] {
+    return [this.#start, this.#end]
+  }
+}
+
+export class QuadraticBezierCurve extends Curve {
+  #start: Vector2
+  controlPoint: Vector2
+  #end: Vector2
+
+  constructor(start: Vector2, controlPoint: Vector2, end: Vector2) {
+    super()
+    this.#start = start
+    this.controlPoint = controlPoint
+    this.#end = end
+  }
+
+  get start(): Vector2 {
+    return this.#start
+  }
+
+  get end(): Vector2 {
+    return this.#end
+  }
+
+  pointAt(t: ClosedInterval<0, 1>): Vector2 {
+    const mt = 1 - t
+    return this.#start
+      .multiply(mt * mt)
+      .add(this.controlPoint.multiply(2 * mt * t))
+      .add(this.#end.multiply(t * t))
+  }
+
+  derivativeAt(t: ClosedInterval<0, 1>): Vector2 {
+    return this.controlPoint
+      .subtract(this.#start)
+      .multiply(2 * (1 - t))
+      .add(this.#end.subtract(this.controlPoint).multiply(2 * t))
+  }
+
+  extrema(): number[] {
+    return (['x', 'y'] as const)
+      .map((axis) => {
+        const denominator =
+          this.#start[axis] - 2 * this.controlPoint[axis] + this.#end[axis]
+        return denominator === 0
+          ? Number.NaN
+          : (this.#start[axis] - this.controlPoint[axis]) / denominator
+      })
+      .filter(isInterior)
+  }
+}
+
+export class CubicBezierCurve extends Curve {
+  #start: Vector2
+  controlPoint1: Vector2
+  controlPoint2: Vector2
+  #end: Vector2
+
+  constructor(
+    start: Vector2,
+    controlPoint1: Vector2,
+    controlPoint2: Vector2,
+    end: Vector2,
+  ) {
+    super()
+    this.#start = start
+    this.controlPoint1 = controlPoint1
+    this.controlPoint2 = controlPoint2
+    this.#end = end
+  }
+
+  get start(): Vector2 {
+    return this.#start
+  }
+
+  get end(): Vector2 {
+    return this.#end
+  }
+
+  pointAt(t: ClosedInterval<0, 1>): Vector2 {
+    const mt = 1 - t
+    return this.#start
+      .multiply(mt * mt * mt)
+      .add(this.controlPoint1.multiply(3 * mt * mt * t))
+      .add(this.controlPoint2.multiply(3 * mt * t * t))
+      .add(this.#end.multiply(t * t * t))
+  }
+
+  derivativeAt(t: ClosedInterval<0, 1>): Vector2 {
+    const mt = 1 - t
+    return this.controlPoint1
+      .subtract(this.#start)
+      .multiply(3 * mt * mt)
+      .add(this.controlPoint2.subtract(this.controlPoint1).multiply(6 * mt * t))
+      .add(this.#end.subtract(this.controlPoint2).multiply(3 * t * t))
+  }
+
+  extrema(): number[] {
+    return (['x', 'y'] as const)
+      .flatMap((axis) => {
+        const p0 = this.#start[axis]
+        const p1 = this.controlPoint1[axis]
+        const p2 = this.controlPoint2[axis]
+        const p3 = this.#end[axis]
+        // the derivative is 3(at² + bt + c)
+        return solveQuadratic(
+          -p0 + 3 * p1 - 3 * p2 + p3,
+          2 * (p0 - 2 * p1 + p2),
+          p1 - p0,
+        )
+      })
+      .filter(isInterior)
+  }
+}
+
+/**
+ * An elliptical arc, converted from the SVG endpoint parameterization to a center parameterization.
+ * Out-of-range radii are scaled up as described in the SVG spec.
+ * https://www.w3.org/TR/SVG2/implnote.html#ArcImplementationNotes
+ */
+export class ArcCurve extends Curve {
+  #start: Vector2
+  #end: Vector2
+  center: Vector2
+  rx: number
+  ry: number
+  /**
+   * Rotation of the ellipse's x-axis
+   */
+  rotation: Radians
+  startAngle: Radians
+  sweepAngle: Radians
+
+  /**
+   * @param {Vector2} start
+   * @param {number} rx
+   * @param {number} ry
+   * @param {Radians} rotation rotation of the ellipse's x-axis
+   * @param {boolean} largeArcFlag
+   * @param {boolean} sweepFlag
+   * @param {Vector2} end
+   */
+  constructor(
+    start: Vector2,
+    rx: number,
+    ry: number,
+    rotation: Radians,
+    largeArcFlag: boolean,
+    sweepFlag: boolean,
+    end: Vector2,
+  ) {
+    super()
+    this.#start = start
+    this.#end = end
+    this.rotation = rotation
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+    const half = start.subtract(end).divide(2)
+    const x1 = cos * half.x + sin * half.y
+    const y1 = -sin * half.x + cos * half.y
+    let radiusX = Math.abs(rx)
+    let radiusY = Math.abs(ry)
+    const lambda = (x1 / radiusX) ** 2 + (y1 / radiusY) ** 2
+    if (lambda > 1) {
+      radiusX *= Math.sqrt(lambda)
+      radiusY *= Math.sqrt(lambda)
+    }
+    const numerator =
+      radiusX ** 2 * radiusY ** 2 -
+      radiusX ** 2 * y1 ** 2 -
+      radiusY ** 2 * x1 ** 2
+    const denominator = radiusX ** 2 * y1 ** 2 + radiusY ** 2 * x1 ** 2
+    const coefficient =
+      (largeArcFlag === sweepFlag ? -1 : 1) *
+      Math.sqrt(Math.max(0, numerator / denominator))
+    const cx1 = (coefficient * radiusX * y1) / radiusY
+    const cy1 = (-coefficient * radiusY * x1) / radiusX
+    const mid = Vector2.midpoint(start, end)
+    this.center = vec2(
+      cos * cx1 - sin * cy1 + mid.x,
+      sin * cx1 + cos * cy1 + mid.y,
+    )
+    this.rx = radiusX
+    this.ry = radiusY
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+    this.startAngle = angle(1, 0, (x1 - cx1) / radiusX, (y1 - cy1) / radiusY)
+    let sweepAngle = angle(
+      (x1 - cx1) / radiusX,
+      (y1 - cy1) / radiusY,
+      (-x1 - cx1) / radiusX,
+      (-y1 - cy1) / radiusY,
+    )
+    if (!sweepFlag && sweepAngle > 0) {
+      sweepAngle -= Math.PI * 2
+    } else if (sweepFlag && sweepAngle < 0) {
+      sweepAngle += Math.PI * 2
+    }
+    this.sweepAngle = sweepAngle
+  }
+
+  get start(): Vector2 {
+    return this.#start
+  }
+
+  get end(): Vector2 {
+    return this.#end
+  }
+
+  pointAt(t: ClosedInterval<0, 1>): Vector2 {
+    // return the exact end points to avoid accumulating floating point error along a path
+    if (t === 0) {
+      return this.#start
+    }
+    if (t === 1) {
+      return this.#end
+    }
+    const theta = this.startAngle + this.sweepAngle * t
+    const x = this.rx * Math.cos(theta)
+    const y = this.ry * Math.sin(theta)
+    const cos = Math.cos(this.rotation)
+    const sin = Math.sin(this.rotation)
+    return vec2(
+      this.center.x + x * cos - y * sin,
+      this.center.y + x * sin + y * cos,
+    )
+  }
+
+  extrema(): number[] {
+    const cos = Math.cos(this.rotation)
+    const sin = Math.sin(this.rotation)
+    // the angles at which dx/dθ = 0 and dy/dθ = 0, each repeating every π
+    const angles = [
+      Math.atan2(-this.ry * sin, this.rx * cos),
+      Math.atan2(this.ry * cos, this.rx * sin),
+    ]
+    const ts: number[] = []
+    for (const angle of angles) {
+      for (let k = -4; k <= 4; k++) {
+        ts.push((angle + k * Math.PI - this.startAngle) / this.sweepAngle)
+      }
+    }
+    return ts.filter(isInterior)
+  }
+
+  derivativeAt(t: ClosedInterval<0, 1>): Vector2 {
+    const theta = this.startAngle + this.sweepAngle * t
+    const x = -this.rx * Math.sin(theta) * this.sweepAngle
+    const y = this.ry * Math.cos(theta) * this.sweepAngle
+    const cos = Math.cos(this.rotation)
+    const sin = Math.sin(this.rotation)
+    return vec2(x * cos - y * sin, x * sin + y * cos)
+  }
+}
+
+function isInterior(t: number): boolean {
+  return t > 0 && t < 1
+}
+
+/**
+ * @returns {number[]} the real roots of ax² + bx + c
+ */
+function solveQuadratic(a: number, b: number, c: number): number[] {
+  if (Math.abs(a) < 1e-12) {
+    return b === 0 ? [] : [-c / b]
+  }
+  const discriminant = b * b - 4 * a * c
+  if (discriminant < 0) {
+    return []
+  }
+  const root = Math.sqrt(discriminant)
+  return [(-b + root) / (2 * a), (-b - root) / (2 * a)]
+}
@@ -46,4 +46,12 @@ describe('FractalizedLine', () => {
       vec2(1, 1),
     ])
   })
+
+  it('smooths the points', () => {
+    const line = new FractalizedLine([vec2(0, 0), vec2(4, 0), vec2(4, 4)])
+    assert.strictEqual(line.smooth({ iterations: 2 }), line)
+    assert.strictEqual(line.points.length, 6)
+    assert.deepStrictEqual(line.points[0], vec2(0, 0))
+    assert.deepStrictEqual(line.points[5], vec2(4, 4))
+  })
 })
@@ -2,6 +2,7 @@ import { LineSegment } from '../components/polyline.js'
 import { Path } from '../components/path.js'
 import { random, type Rng } from '../random.js'
 import { Vector2 } from '../vector2.js'
+import { SmoothOptions, smooth } from '../algorithms/smoothing.js'
 
 /**
  * Based on the algorithm used here:
@@ -59,6 +60,16 @@ export class FractalizedLine {
     return Path.fromPoints(this.points, closed)
   }
 
+  /**
+   * Smooth the points, e.g. to soften the corners created by subdividing.
+   * @param {SmoothOptions} [options] - The smoothing method and its options. The method defaults to `chaikin`.
+   * @returns {FractalizedLine} - The updated FractalizedLine instance.
+   */
+  smooth(options: SmoothOptions = {}): FractalizedLine {
+    this.points = smooth(this.points, options)
+    return this
+  }
+
   /**
    * Recursively subdivide the points using perpendicular offset.
    * @param {number} subdivisions - The number of times to subdivide.
@@ -3,9 +3,11 @@ export * from './color/color-sequence.js'
 export * from './color/rgb.js'
 export * from './components/index.js'
 export * from './constants.js'
+export * from './curves.js'
 export * from './data-structures/fractalized-line.js'
 export * from './data-structures/grid.js'
 export * from './math.js'
+export * from './matrix2d.js'
 export * from './noise/oscillator-noise.js'
 export * from './noise/oscillator.js'
 export * from './random.js'
@@ -21,3 +23,10 @@ export {
   type Contour,
   type ContourParams,
 } from './algorithms/walking-triangles.js'
+export * from './algorithms/bounding-shapes.js'
+export * from './algorithms/line-clipping.js'
+export * from './algorithms/offset.js'
+export * from './algorithms/polygon-boolean.js'
+export * from './algorithms/simplify.js'
+export * from './algorithms/smoothing.js'
+export * from './algorithms/splines.js'
@@ -11,3 +11,34 @@ export function warnWithDefault<T>(message: string, defaultValue: T): T {
 export function error(message: string): never {
   throw new Error(message)
 }
+
+/**
+ * Escapes the characters that are not allowed to appear literally in XML text or attribute values.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * A short random hex string, suitable for use as an element ID.
+ */
+export function randomId(): string {
+  return Math.random().toString(16).replace(/^0\./, '')
+}
+
+/**
+ * A shallow copy of `obj` without the given keys.
+ */
+export function omit<T extends Record<string, unknown>>(
+  obj: T,
+  keys: string[],
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([key]) => !keys.includes(key)),
+  )
+}
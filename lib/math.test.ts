@@ -3,6 +3,7 @@ import { vec2 } from './vector2'
 import {
   smallestAngularDifference,
   angleOfVertex,
+  distanceToSegment,
   isWithin,
   toFixedPrecision,
 } from './math'
@@ -79,6 +80,27 @@ describe('angleOfVertex', () => {
   }
 })
 
+describe('distanceToSegment', () => {
+  const tests = [
+    { point: vec2(5, 3), expected: 3, description: 'above the segment' },
+    { point: vec2(-3, 4), expected: 5, description: 'beyond the start' },
+    { point: vec2(13, -4), expected: 5, description: 'beyond the end' },
+  ]
+
+  for (const { point, expected, description } of tests) {
+    it(`should return ${expected} for a point ${description}`, () => {
+      assert.strictEqual(
+        distanceToSegment(point, vec2(0, 0), vec2(10, 0)),
+        expected,
+      )
+    })
+  }
+
+  it('handles zero-length segments', () => {
+    assert.strictEqual(distanceToSegment(vec2(3, 4), vec2(0, 0), vec2(0, 0)), 5)
+  })
+})
+
 describe('toFixedPrecision', () => {
   const tests = [
     [1.123456789, 0, 1],
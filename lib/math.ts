@@ -75,6 +75,30 @@ export function angleOfVertex(
   return Math.acos(a.dot(b) / lengthProduct)
 }
 
+/**
+ * The shortest distance from `point` to the line segment between `start` and `end`
+ * @param {Vector2} point
+ * @param {Vector2} start
+ * @param {Vector2} end
+ * @returns {number}
+ */
+export function distanceToSegment(
+  point: Vector2,
+  start: Vector2,
+  end: Vector2,
+): number {
+  const segment = end.subtract(start)
+  const lengthSquared = segment.dot(segment)
+  if (lengthSquared === 0) {
+    return point.distanceTo(start)
+  }
+  const t = Math.min(
+    1,
+    Math.max(0, point.subtract(start).dot(segment) / lengthSquared),
+  )
+  return point.distanceTo(start.add(segment.multiply(t)))
+}
+
 export function haveSameSign(number1: number, number2: number): boolean {
   return number1 < 0 === number2 < 0
 }
@@ -0,0 +1,151 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { Matrix2D } from './matrix2d'
+import { vec2 } from './vector2'
+import { assertVectorClose } from './test-helpers'
+
+function assertMatrixClose(actual: Matrix2D, expected: Matrix2D) {
+  for (const key of ['a', 'b', 'c', 'd', 'e', 'f'] as const) {
+    assert(
+      Math.abs(actual[key] - expected[key]) < 1e-9,
+      `expected ${actual} to equal ${expected}`,
+    )
+  }
+}
+
+describe('Matrix2D', () => {
+  describe('apply', () => {
+    it('translates points', () => {
+      const m = Matrix2D.translation(vec2(5, -2))
+      assertVectorClose(m.apply(vec2(1, 1)), vec2(6, -1))
+    })
+
+    it('rotates points around an origin', () => {
+      const m = Matrix2D.rotation(Math.PI / 2, vec2(10, 10))
+      assertVectorClose(m.apply(vec2(11, 10)), vec2(10, 11))
+    })
+
+    it('scales points from an origin', () => {
+      const m = Matrix2D.scaling(2, 3, vec2(1, 1))
+      assertVectorClose(m.apply(vec2(2, 2)), vec2(3, 4))
+    })
+  })
+
+  describe('applyToVector', () => {
+    it('ignores translation', () => {
+      const m = Matrix2D.translation(vec2(5, 5)).scale(2)
+      assertVectorClose(m.applyToVector(vec2(1, 1)), vec2(2, 2))
+    })
+  })
+
+  describe('multiply', () => {
+    it('applies the argument first', () => {
+      const m = Matrix2D.translation(vec2(10, 0)).multiply(Matrix2D.scaling(2))
+      assertVectorClose(m.apply(vec2(1, 1)), vec2(12, 2))
+    })
+  })
+
+  describe('compose', () => {
+    it('matches chained calls', () => {
+      assertMatrixClose(
+        Matrix2D.compose(
+          Matrix2D.translation(vec2(3, 4)),
+          Matrix2D.rotation(1),
+          Matrix2D.scaling(2, 5),
+        ),
+        Matrix2D.identity().translate(vec2(3, 4)).rotate(1).scale(2, 5),
+      )
+    })
+  })
+
+  describe('invert', () => {
+    it('returns the inverse transform', () => {
+      const m = Matrix2D.identity()
+        .translate(vec2(3, 4))
+        .rotate(0.3)
+        .skewX(0.2)
+        .scale(2, 5)
+      assertMatrixClose(m.multiply(m.invert()), Matrix2D.identity())
+      assertVectorClose(m.invert().apply(m.apply(vec2(7, -3))), vec2(7, -3))
+    })
+
+    it('throws for singular matrices', () => {
+      assert.throws(() => Matrix2D.scaling(0, 1).invert())
+    })
+  })
+
+  describe('decompose', () => {
+    for (const [name, m] of [
+      [
+        'translate, rotate and scale',
+        Matrix2D.identity().translate(vec2(3, 4)).rotate(0.7).scale(2, 3),
+      ],
+      ['skew', Matrix2D.identity().rotate(-0.4).skewX(0.3).scale(1, 2)],
+      ['reflection', Matrix2D.scaling(-1, 1).rotate(0.2)],
+    ] as const) {
+      it(`recomposes to the original matrix (${name})`, () => {
+        const { translation, rotation, skew, scale } = m.decompose()
+        assertMatrixClose(
+          Matrix2D.identity()
+            .translate(translation)
+            .rotate(rotation)
+            .skewX(skew)
+            .scale(scale.x, scale.y),
+          m,
+        )
+      })
+    }
+
+    it('returns the components of a simple transform', () => {
+      const { translation, rotation, skew, scale } = Matrix2D.identity()
+        .translate(vec2(3, 4))
+        .rotate(0.7)
+        .scale(2, 3)
+        .decompose()
+      assertVectorClose(translation, vec2(3, 4))
+      assert(Math.abs(rotation - 0.7) < 1e-9)
+      assert(Math.abs(skew) < 1e-9)
+      assertVectorClose(scale, vec2(2, 3))
+    })
+  })
+
+  describe('applyToEllipse', () => {
+    it('returns the radii and rotation of a transformed circle', () => {
+      const { rx, ry, rotation } = Matrix2D.identity()
+        .rotate(Math.PI / 4)
+        .scale(3, 1)
+        .applyToEllipse(2, 2)
+      assert(Math.abs(rx - 6) < 1e-9)
+      assert(Math.abs(ry - 2) < 1e-9)
+      assert(Math.abs(rotation - Math.PI / 4) < 1e-9)
+    })
+  })
+
+  describe('fromTransforms', () => {
+    it('builds the matrix from SVG transform functions', () => {
+      assertMatrixClose(
+        Matrix2D.fromTransforms([
+          { name: 'translate', values: [10, 5] },
+          { name: 'rotate', values: [90, 1, 1] },
+          { name: 'scale', values: [2] },
+        ]),
+        Matrix2D.identity()
+          .translate(vec2(10, 5))
+          .rotate(Math.PI / 2, vec2(1, 1))
+          .scale(2),
+      )
+    })
+  })
+
+  describe('isSimilarity', () => {
+    it('is true for rotation, reflection and uniform scale', () => {
+      assert(Matrix2D.rotation(1).scale(3).isSimilarity())
+      assert(Matrix2D.scaling(-2, 2).rotate(0.5).isSimilarity())
+    })
+
+    it('is false for non-uniform scale and skew', () => {
+      assert(!Matrix2D.scaling(2, 1).isSimilarity())
+      assert(!Matrix2D.skewingX(0.3).isSimilarity())
+    })
+  })
+})
@@ -0,0 +1,331 @@
+import type { TransformFunction } from './components/tag.js'
+import { Radians } from './types.js'
+import { Vector2, vec2 } from './vector2.js'
+
+/**
+ * The components of an affine transform, in the order they would be applied in an SVG transform list:
+ * `translate(translation) rotate(rotation) skewX(skew) scale(scale)`
+ */
+export type DecomposedMatrix2D = {
+  translation: Vector2
+  rotation: Radians
+  skew: Radians
+  scale: Vector2
+}
+
+/**
+ * A 2D affine transform, using the same layout as the SVG `matrix(a b c d e f)` transform function:
+ *
+ *   | a c e |
+ *   | b d f |
+ *   | 0 0 1 |
+ *
+ * Methods which combine transforms follow the same convention as an SVG transform list:
+ * `m.translate(v).rotate(angle)` rotates the geometry first, then translates it.
+ *
+ * @example
+ *   const m = Matrix2D.identity().translate(vec2(10, 10)).rotate(Math.PI / 4)
+ *   const p = m.apply(vec2(1, 0))
+ *   const square = new Polygon({ points }).transformed(m)
+ */
+export class Matrix2D {
+  a: number
+  b: number
+  c: number
+  d: number
+  e: number
+  f: number
+
+  constructor(a = 1, b = 0, c = 0, d = 1, e = 0, f = 0) {
+    this.a = a
+    this.b = b
+    this.c = c
+    this.d = d
+    this.e = e
+    this.f = f
+  }
+
+  static identity(): Matrix2D {
+    return new Matrix2D()
+  }
+
+  /**
+   * @param {Vector2} offset
+   * @returns {Matrix2D}
+   */
+  static translation(offset: Vector2): Matrix2D {
+    return new Matrix2D(1, 0, 0, 1, offset.x, offset.y)
+  }
+
+  /**
+   * @param {Radians} angle
+   * @param {Vector2} [origin] the point to rotate around. Defaults to the origin of the coordinate system.
+   * @returns {Matrix2D}
+   */
+  static rotation(angle: Radians, origin?: Vector2): Matrix2D {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    const m = new Matrix2D(cos, sin, -sin, cos, 0, 0)
+    return origin ? Matrix2D.aroundOrigin(m, origin) : m
+  }
+
+  /**
+   * @param {number} sx
+   * @param {number} [sy] defaults to `sx` if omitted.
+   * @param {Vector2} [origin] the point to scale from. Defaults to the origin of the coordinate system.
+   * @returns {Matrix2D}
+   */
+  static scaling(sx: number, sy: number = sx, origin?: Vector2): Matrix2D {
+    const m = new Matrix2D(sx, 0, 0, sy, 0, 0)
+    return origin ? Matrix2D.aroundOrigin(m, origin) : m
+  }
+
+  /**
+   * @param {Radians} angle
+   * @returns {Matrix2D}
+   */
+  static skewingX(angle: Radians): Matrix2D {
+    return new Matrix2D(1, 0, Math.tan(angle), 1, 0, 0)
+  }
+
+  /**
+   * @param {Radians} angle
+   * @returns {Matrix2D}
+   */
+  static skewingY(angle: Radians): Matrix2D {
+    return new Matrix2D(1, Math.tan(angle), 0, 1, 0, 0)
+  }
+
+  /**
+   * Composes the matrices in SVG transform list order; the last matrix is applied to the geometry first.
+   * @param {Matrix2D[]} matrices
+   * @returns {Matrix2D}
+   */
+  static compose(...matrices: Matrix2D[]): Matrix2D {
+    return matrices.reduce((acc, m) => acc.multiply(m), Matrix2D.identity())
+  }
+
+  /**
+   * Builds a matrix from the transform functions applied to a Tag (see `Tag#transforms`).
+   * @param {TransformFunction[]} transforms
+   * @returns {Matrix2D}
+   */
+  static fromTransforms(transforms: TransformFunction[]): Matrix2D {
+    const degToRad = (degrees: number) => (degrees * Math.PI) / 180
+    return Matrix2D.compose(
+      ...transforms.map(({ name, values }) => {
+        switch (name) {
+          case 'translate':
+            return Matrix2D.translation(vec2(values[0], values[1] ?? 0))
+          case 'rotate':
+            return Matrix2D.rotation(
+              degToRad(values[0]),
+              values.length === 3 ? vec2(values[1], values[2]) : undefined,
+            )
+          case 'scale':
+            return Matrix2D.scaling(values[0], values[1] ?? values[0])
+          case 'skewX':
+            return Matrix2D.skewingX(degToRad(values[0]))
+          case 'skewY':
+            return Matrix2D.skewingY(degToRad(values[0]))
+          case 'matrix':
+            return new Matrix2D(...values)
+        }
+      }),
+    )
+  }
+
+  static aroundOrigin(m: Matrix2D, origin: Vector2): Matrix2D {
+    return Matrix2D.compose(
+      Matrix2D.translation(origin),
+      m,
+      Matrix2D.translation(origin.multiply(-1)),
+    )
+  }
+
+  /**
+   * Returns `this × other`, i.e. `other` is applied to the geometry first.
+   * @param {Matrix2D} other
+   * @returns {Matrix2D}
+   */
+  multiply(other: Matrix2D): Matrix2D {
+    return new Matrix2D(
+      this.a * other.a + this.c * other.b,
+      this.b * other.a + this.d * other.b,
+      this.a * other.c + this.c * other.d,
+      this.b * other.c + this.d * other.d,
+      this.a * other.e + this.c * other.f + this.e,
+      this.b * other.e + this.d * other.f + this.f,
+    )
+  }
+
+  translate(offset: Vector2): Matrix2D {
+    return this.multiply(Matrix2D.translation(offset))
+  }
+
+  rotate(angle: Radians, origin?: Vector2): Matrix2D {
+    return this.multiply(Matrix2D.rotation(angle, origin))
+  }
+
+  scale(sx: number, sy: number = sx, origin?: Vector2): Matrix2D {
+    return this.multiply(Matrix2D.scaling(sx, sy, origin))
+  }
+
+  skewX(angle: Radians): Matrix2D {
+    return this.multiply(Matrix2D.skewingX(angle))
+  }
+
+  skewY(angle: Radians): Matrix2D {
+    return this.multiply(Matrix2D.skewingY(angle))
+  }
+
+  determinant(): number {
+    return this.a * this.d - this.b * this.c
+  }
+
+  /**
+   * @returns {Matrix2D}
+   * @throws when the matrix is not invertible
+   */
+  invert(): Matrix2D {
+    const det = this.determinant()
+    if (det === 0) {
+      throw new Error(`Cannot invert singular matrix ${this}`)
+    }
+    return new Matrix2D(
+      this.d / det,
+      -this.b / det,
+      -this.c / det,
+      this.a / det,
+      (this.c * this.f - this.d * this.e) / det,
+      (this.b * this.e - this.a * this.f) / det,
+    )
+  }
+
+  /**
+   * Transforms a point.
+   * @param {Vector2} point
+   * @returns {Vector2}
+   */
+  apply(point: Vector2): Vector2 {
+    return vec2(
+      this.a * point.x + this.c * point.y + this.e,
+      this.b * point.x + this.d * point.y + this.f,
+    )
+  }
+
+  /**
+   * Transforms a direction or offset; i.e. translation is ignored.
+   * @param {Vector2} vector
+   * @returns {Vector2}
+   */
+  applyToVector(vector: Vector2): Vector2 {
+    return vec2(
+      this.a * vector.x + this.c * vector.y,
+      this.b * vector.x + this.d * vector.y,
+    )
+  }
+
+  /**
+   * Transforms the shape of an ellipse centered at the origin.
+   * The result is always normalized so that `rx >= ry`.
+   * @param {number} rx
+   * @param {number} ry
+   * @param {Radians} [rotation=0] rotation of the ellipse's x-axis
+   * @returns {{ rx: number, ry: number, rotation: Radians }}
+   */
+  applyToEllipse(
+    rx: number,
+    ry: number,
+    rotation: Radians = 0,
+  ): { rx: number; ry: number; rotation: Radians } {
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+    // columns of the ellipse's shape matrix, after being transformed
+    const p = this.a * rx * cos + this.c * rx * sin
+    const r = this.b * rx * cos + this.d * rx * sin
+    const q = -this.a * ry * sin + this.c * ry * cos
+    const s = -this.b * ry * sin + this.d * ry * cos
+    // eigen decomposition of A·Aᵀ gives the squared radii and the orientation
+    const e = p * p + q * q
+    const f = p * r + q * s
+    const g = r * r + s * s
+    const mid = (e + g) / 2
+    const spread = Math.sqrt(((e - g) / 2) ** 2 + f * f)
+    return {
+      rx: Math.sqrt(mid + spread),
+      ry: Math.sqrt(Math.max(0, mid - spread)),
+      rotation: 0.5 * Math.atan2(2 * f, e - g),
+    }
+  }
+
+  /**
+   * Decomposes the matrix into translation, rotation, skew and scale.
+   * Recomposing with `translate(translation) rotate(rotation) skewX(skew) scale(scale)` returns the original matrix.
+   * @returns {DecomposedMatrix2D}
+   */
+  decompose(): DecomposedMatrix2D {
+    const sx = Math.hypot(this.a, this.b)
+    const rotation = Math.atan2(this.b, this.a)
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+    const sy = this.d * cos - this.c * sin
+    const skew = Math.atan2(this.c * cos + this.d * sin, sy)
+    return {
+      translation: vec2(this.e, this.f),
+      rotation,
+      skew: sy < 0 ? skew - Math.sign(skew) * Math.PI : skew,
+      scale: vec2(sx, sy),
+    }
+  }
+
+  /**
+   * True when the matrix only translates, rotates, reflects and uniformly scales.
+   * Circles remain circles under similarity transforms.
+   * @param {number} [tolerance=1e-9]
+   * @returns {boolean}
+   */
+  isSimilarity(tolerance = 1e-9): boolean {
+    return (
+      (Math.abs(this.a - this.d) < tolerance &&
+        Math.abs(this.b + this.c) < tolerance) ||
+      (Math.abs(this.a + this.d) < tolerance &&
+        Math.abs(this.b - this.c) < tolerance)
+    )
+  }
+
+  /**
+   * True when axis-aligned shapes remain axis-aligned, i.e. the matrix only translates, scales,
+   * or rotates by a multiple of 90°.
+   * @param {number} [tolerance=1e-9]
+   * @returns {boolean}
+   */
+  isAxisAligned(tolerance = 1e-9): boolean {
+    return (
+      (Math.abs(this.b) < tolerance && Math.abs(this.c) < tolerance) ||
+      (Math.abs(this.a) < tolerance && Math.abs(this.d) < tolerance)
+    )
+  }
+
+  isIdentity(): boolean {
+    return (
+      this.a === 1 &&
+      this.b === 0 &&
+      this.c === 0 &&
+      this.d === 1 &&
+      this.e === 0 &&
+      this.f === 0
+    )
+  }
+
+  toString(): string {
+    return `Matrix2D { a: ${this.a}, b: ${this.b}, c: ${this.c}, d: ${this.d}, e: ${this.e}, f: ${this.f} }`
+  }
+}
+
+/**
+ * @returns {Matrix2D}
+ */
+export function matrix2d(a = 1, b = 0, c = 0, d = 1, e = 0, f = 0): Matrix2D {
+  return new Matrix2D(a, b, c, d, e, f)
+}
@@ -0,0 +1,19 @@
+import assert from 'node:assert'
+import { Vector2 } from './vector2'
+
+/**
+ * Asserts that two vectors are equal, within floating point error.
+ * @param {Vector2} actual
+ * @param {Vector2} expected
+ * @param {number} [epsilon=1e-9]
+ */
+export function assertVectorClose(
+  actual: Vector2,
+  expected: Vector2,
+  epsilon = 1e-9,
+): void {
+  assert(
+    actual.distanceTo(expected) < epsilon,
+    `expected ${actual} to equal ${expected}`,
+  )
+}
@@ -94,6 +94,26 @@ export class Vector2 {
     return this.x * other.x + this.y * other.y
   }
 
+  /**
+   * The z-component of the 3D cross product, a.k.a. the perp dot product.
+   * Positive when `other` is clockwise from this vector on screen (y-down).
+   * @param {Vector2} other
+   * @returns {number}
+   */
+  cross(other: Vector2): number {
+    return this.x * other.y - this.y * other.x
+  }
+
+  /**
+   * Returns a vector in the same direction with a length of 1.
+   * The zero vector is returned as-is.
+   * @returns {Vector2}
+   */
+  normalize(): Vector2 {
+    const length = this.length()
+    return length === 0 ? this : this.divide(length)
+  }
+
   /**
    * @param {Vector2} other
    * @returns {number}
@@ -0,0 +1,66 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { decodeXmlEntities, parseXml } from './xml'
+
+describe('parseXml', () => {
+  it('parses nested elements, attributes and text', () => {
+    const root = parseXml(`<a x="1" y='two'><b/><c k = "v">hello</c></a>`)
+    assert.deepStrictEqual(root, {
+      type: 'element',
+      name: 'a',
+      attributes: { x: '1', y: 'two' },
+      children: [
+        { type: 'element', name: 'b', attributes: {}, children: [] },
+        {
+          type: 'element',
+          name: 'c',
+          attributes: { k: 'v' },
+          children: [{ type: 'text', text: 'hello' }],
+        },
+      ],
+    })
+  })
+
+  it('skips declarations, doctypes and comments', () => {
+    const root = parseXml(
+      `<?xml version="1.0"?>
+<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd" [ <!ENTITY ns "x"> ]>
+<!-- a comment -->
+<svg><!-- <g></g> --></svg>`,
+    )
+    assert.strictEqual(root.name, 'svg')
+    assert.deepStrictEqual(root.children, [])
+  })
+
+  it('decodes entities in text and attributes, and reads CDATA verbatim', () => {
+    const root = parseXml(
+      `<a title="&quot;x&quot; &amp; y">&lt;&#65;&#x42;&gt;<![CDATA[<&>]]></a>`,
+    )
+    assert.strictEqual(root.attributes.title, '"x" & y')
+    assert.deepStrictEqual(root.children, [
+      { type: 'text', text: '<AB>' },
+      { type: 'text', text: '<&>' },
+    ])
+  })
+
+  it('supports namespaced names', () => {
+    const root = parseXml(`<svg xmlns:xlink="x"><use xlink:href="#a"/></svg>`)
+    const use = root.children[0]
+    assert(use.type === 'element')
+    assert.strictEqual(use.attributes['xlink:href'], '#a')
+  })
+
+  it('throws on malformed documents', () => {
+    assert.throws(() => parseXml('<a><b></a>'), /unexpected closing tag <\/a>/)
+    assert.throws(() => parseXml('<a>'), /unclosed tag <a>/)
+    assert.throws(() => parseXml('<a x=1></a>'), /expected a quoted value/)
+    assert.throws(() => parseXml('<a></a><b></b>'), /single root element/)
+    assert.throws(() => parseXml(''), /expected a root element/)
+  })
+})
+
+describe('decodeXmlEntities', () => {
+  it('leaves unknown entities alone', () => {
+    assert.strictEqual(decodeXmlEntities('&nbsp;&amp;'), '&nbsp;&')
+  })
+})
@@ -0,0 +1,174 @@
+// A minimal, non-validating XML parser; just enough to read SVG documents.
+// Processing instructions, comments and doctype declarations are skipped.
+
+export type XmlElement = {
+  type: 'element'
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlText = {
+  type: 'text'
+  text: string
+}
+
+export type XmlNode = XmlElement | XmlText
+
+const NAME = /[A-Za-z_:][\w:.-]*/y
+const WHITESPACE = /\s*/y
+const ATTRIBUTE_VALUE = /"([^"]*)"|'([^']*)'/y
+
+/**
+ * Decodes the predefined XML entities and numeric character references.
+ * @param {string} value
+ * @returns {string}
+ */
+export function decodeXmlEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g,
+    (_, entity: string) => {
+      switch (entity) {
+        case 'amp':
+          return '&'
+        case 'lt':
+          return '<'
+        case 'gt':
+          return '>'
+        case 'quot':
+          return '"'
+        case 'apos':
+          return "'"
+        default:
+          return String.fromCodePoint(
+            entity[1] === 'x'
+              ? Number.parseInt(entity.slice(2), 16)
+              : Number.parseInt(entity.slice(1), 10),
+          )
+      }
+    },
+  )
+}
+
+/**
+ * Parses an XML document and returns its root element.
+ * @param {string} xml
+ * @returns {XmlElement}
+ * @throws when the document is malformed
+ */
+export function parseXml(xml: string): XmlElement {
+  let index = 0
+  const stack: XmlElement[] = []
+  let root: XmlElement | undefined
+
+  const fail = (message: string): never => {
+    throw new Error(`Unable to parse XML: ${message} at position ${index}`)
+  }
+
+  const match = (pattern: RegExp): RegExpExecArray | null => {
+    pattern.lastIndex = index
+    const result = pattern.exec(xml)
+    if (result !== null) {
+      index = pattern.lastIndex
+    }
+    return result
+  }
+
+  const skipPast = (terminator: string) => {
+    const end = xml.indexOf(terminator, index)
+    if (end === -1) {
+      fail(`expected "${terminator}"`)
+    }
+    const content = xml.slice(index, end)
+    index = end + terminator.length
+    return content
+  }
+
+  const appendChild = (node: XmlNode) => {
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.children.push(node)
+    } else if (node.type === 'element') {
+      if (root !== undefined) {
+        fail('expected a single root element')
+      }
+      root = node
+    } else if (node.text.trim() !== '') {
+      fail('unexpected text outside of the root element')
+    }
+  }
+
+  while (index < xml.length) {
+    if (!xml.startsWith('<', index)) {
+      const end = xml.indexOf('<', index)
+      const text = xml.slice(index, end === -1 ? xml.length : end)
+      index += text.length
+      appendChild({ type: 'text', text: decodeXmlEntities(text) })
+    } else if (xml.startsWith('<?', index)) {
+      skipPast('?>')
+    } else if (xml.startsWith('<!--', index)) {
+      skipPast('-->')
+    } else if (xml.startsWith('<![CDATA[', index)) {
+      index += '<![CDATA['.length
+      appendChild({ type: 'text', text: skipPast(']]>') })
+    } else if (xml.startsWith('<!', index)) {
+      // doctype declarations may contain an internal subset in square brackets
+      const bracket = xml.indexOf('[', index)
+      const close = xml.indexOf('>', index)
+      if (bracket !== -1 && bracket < close) {
+        skipPast(']')
+      }
+      skipPast('>')
+    } else if (xml.startsWith('</', index)) {
+      index += 2
+      const name = match(NAME)?.[0] ?? fail('expected a tag name')
+      match(WHITESPACE)
+      if (!xml.startsWith('>', index)) {
+        fail('expected ">"')
+      }
+      index++
+      const open = stack.pop()
+      if (open?.name !== name) {
+        fail(`unexpected closing tag </${name}>`)
+      }
+    } else {
+      index++
+      const element: XmlElement = {
+        type: 'element',
+        name: match(NAME)?.[0] ?? fail('expected a tag name'),
+        attributes: {},
+        children: [],
+      }
+      match(WHITESPACE)
+      while (!xml.startsWith('>', index) && !xml.startsWith('/>', index)) {
+        const name = match(NAME)?.[0] ?? fail('expected an attribute name')
+        match(WHITESPACE)
+        if (!xml.startsWith('=', index)) {
+          fail(`expected "=" after attribute "${name}"`)
+        }
+        index++
+        match(WHITESPACE)
+        const value =
+          match(ATTRIBUTE_VALUE) ??
+          fail(`expected a quoted value for attribute "${name}"`)
+        element.attributes[name] = decodeXmlEntities(value[1] ?? value[2])
+        match(WHITESPACE)
+        if (index >= xml.length) {
+          fail('unexpected end of input')
+        }
+      }
+      appendChild(element)
+      if (xml.startsWith('/>', index)) {
+        index += 2
+      } else {
+        index++
+        stack.push(element)
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`unclosed tag <${stack[stack.length - 1].name}>`)
+  }
+  return root ?? fail('expected a root element')
+}